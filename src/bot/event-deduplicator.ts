@@ -0,0 +1,54 @@
+import { LRUCache } from 'lru-cache';
+import type { FeishuCardActionEvent, FeishuMessageEvent } from '../types.js';
+
+export class EventDeduplicator {
+  private readonly seen: LRUCache<string, true>;
+
+  constructor(options: { ttlMs: number; maxEntries: number }) {
+    this.seen = new LRUCache<string, true>({
+      max: Math.max(1, options.maxEntries),
+      ttl: Math.max(1000, options.ttlMs),
+    });
+  }
+
+  /**
+   * Records the event and reports whether its event_id or message_id was
+   * already seen within the TTL window.
+   */
+  isDuplicate(event: FeishuMessageEvent): boolean {
+    return this.checkAndRecord(this.buildKeys(event));
+  }
+
+  /**
+   * Card callbacks are keyed by event_id only: the same card message may be
+   * clicked several times on purpose.
+   */
+  isDuplicateAction(event: FeishuCardActionEvent): boolean {
+    return this.checkAndRecord(event.eventId ? [`action:${event.eventId}`] : []);
+  }
+
+  private checkAndRecord(keys: string[]): boolean {
+    if (keys.length === 0) {
+      return false;
+    }
+
+    const duplicate = keys.some(key => this.seen.has(key));
+    for (const key of keys) {
+      this.seen.set(key, true);
+    }
+    return duplicate;
+  }
+
+  private buildKeys(event: FeishuMessageEvent): string[] {
+    const keys: string[] = [];
+    const eventId = event.header?.event_id;
+    if (eventId) {
+      keys.push(`event:${eventId}`);
+    }
+    const messageId = event.event?.message?.message_id;
+    if (messageId) {
+      keys.push(`message:${messageId}`);
+    }
+    return keys;
+  }
+}
@@ -1,29 +1,59 @@
 import { EventEmitter } from 'events';
-import { FeishuBotConfig, FeishuMessageEvent } from '../types.js';
+import {
+  ConnectionMode,
+  FeishuBotConfig,
+  FeishuCardActionEvent,
+  FeishuMessageEvent,
+  FeishuMessageSnapshot,
+} from '../types.js';
 import { Logger } from '../utils/logger.js';
+import { EventDeduplicator } from './event-deduplicator.js';
 import { FeishuWSClient } from './feishu-ws-client.js';
+import type { InboundTransport } from './inbound-transport.js';
+import { WebhookServer } from './webhook-server.js';
 
 interface MessageHandler {
   (message: FeishuMessageEvent): Promise<void>;
 }
 
 export class FeishuBot extends EventEmitter {
-  private wsClient: FeishuWSClient;
+  private apiClient: FeishuWSClient;
+  private transport: InboundTransport;
+  private deduplicator: EventDeduplicator;
   private messageHandler: MessageHandler | null = null;
 
   constructor(config: FeishuBotConfig) {
     super();
-    this.wsClient = new FeishuWSClient(config);
+    // Outbound API calls always go through the SDK client; only the inbound side differs per mode.
+    this.apiClient = new FeishuWSClient(config);
+    this.transport = config.connectionMode === 'webhook'
+      ? new WebhookServer(config)
+      : this.apiClient;
+    this.deduplicator = new EventDeduplicator({
+      ttlMs: config.eventDedupTtl || 12 * 60 * 60 * 1000,
+      maxEntries: config.eventDedupMaxEntries || 10000,
+    });
+  }
+
+  getConnectionMode(): ConnectionMode {
+    return this.transport.mode;
+  }
+
+  getLastConnectTime(): Date | undefined {
+    return this.transport.mode === 'websocket' ? this.apiClient.getLastConnectTime() : undefined;
   }
 
   async start(): Promise<void> {
-    Logger.info('FeishuBot', 'Starting Feishu bot with WebSocket...');
+    Logger.info('FeishuBot', `Starting Feishu bot with ${this.transport.mode}...`);
 
-    this.wsClient.on('message', (event: FeishuMessageEvent) => {
+    this.transport.on('message', (event: FeishuMessageEvent) => {
       this.handleMessage(event);
     });
+    this.transport.on('cardAction', (event: FeishuCardActionEvent) => {
+      this.handleCardAction(event);
+    });
 
-    await this.wsClient.start();
+    await this.transport.start();
     
     Logger.info('FeishuBot', 'Feishu bot started successfully');
   }
@@ -34,6 +64,15 @@ export class FeishuBot extends EventEmitter {
 
   private async handleMessage(event: FeishuMessageEvent): Promise<void> {
     try {
+      if (this.deduplicator.isDuplicate(event)) {
+        Logger.debug(
+          'FeishuBot',
+          `Dropping duplicate delivery (event_id=${event.header?.event_id || '-'}, `
+          + `message_id=${event.event?.message?.message_id || '-'})`,
+        );
+        return;
+      }
+
       Logger.info('FeishuBot', `Received message from ${event.event?.sender?.sender_id?.user_id}`);
       
       if (this.messageHandler) {
@@ -46,16 +85,30 @@ export class FeishuBot extends EventEmitter {
     }
   }
 
-  async sendMessage(chatId: string, content: string, msgType: string = 'text'): Promise<void> {
-    await this.wsClient.sendMessage(chatId, content, msgType);
+  private handleCardAction(event: FeishuCardActionEvent): void {
+    if (this.deduplicator.isDuplicateAction(event)) {
+      Logger.debug('FeishuBot', `Dropping duplicate card action (event_id=${event.eventId})`);
+      return;
+    }
+
+    Logger.info('FeishuBot', `Received card action on message ${event.messageId}`);
+    this.emit('cardAction', event);
+  }
+
+  async sendMessage(chatId: string, content: string, msgType: string = 'text'): Promise<string> {
+    return this.apiClient.sendMessage(chatId, content, msgType);
+  }
+
+  async updateMessage(messageId: string, content: string, msgType: string = 'interactive'): Promise<void> {
+    await this.apiClient.updateMessage(messageId, content, msgType);
   }
 
   async sendFile(chatId: string, filePath: string): Promise<void> {
-    await this.wsClient.sendFile(chatId, filePath);
+    await this.apiClient.sendFile(chatId, filePath);
   }
 
   async sendImage(chatId: string, imageInput: string): Promise<void> {
-    await this.wsClient.sendImage(chatId, imageInput);
+    await this.apiClient.sendImage(chatId, imageInput);
   }
 
   async downloadMessageFile(params: {
@@ -64,16 +117,25 @@ export class FeishuBot extends EventEmitter {
     targetPath: string;
     resourceType?: string;
   }): Promise<void> {
-    await this.wsClient.downloadMessageFile(params);
+    await this.apiClient.downloadMessageFile(params);
+  }
+
+  async getMessage(messageId: string): Promise<FeishuMessageSnapshot | null> {
+    return this.apiClient.getMessage(messageId);
   }
 
-  async replyToMessage(messageId: string, content: string, msgType: string = 'text'): Promise<void> {
-    await this.wsClient.replyToMessage(messageId, content, msgType);
+  async replyToMessage(
+    messageId: string,
+    content: string,
+    msgType: string = 'text',
+    replyInThread: boolean = false,
+  ): Promise<string> {
+    return this.apiClient.replyToMessage(messageId, content, msgType, replyInThread);
   }
 
   async stop(): Promise<void> {
     Logger.info('FeishuBot', 'Stopping Feishu bot...');
-    await this.wsClient.stop();
+    await this.transport.stop();
     Logger.info('FeishuBot', 'Feishu bot stopped');
   }
 }
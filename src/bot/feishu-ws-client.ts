@@ -4,8 +4,16 @@ import { mkdtemp, rm, writeFile } from 'fs/promises';
 import { tmpdir } from 'os';
 import { basename, extname } from 'path';
 import * as lark from '@larksuiteoapi/node-sdk';
-import type { FeishuBotConfig, FeishuMessage, FeishuMessageEvent, FeishuSender } from '../types.js';
+import type {
+  FeishuBotConfig,
+  FeishuCardActionEvent,
+  FeishuMessage,
+  FeishuMessageEvent,
+  FeishuMessageSnapshot,
+  FeishuSender,
+} from '../types.js';
 import { Logger } from '../utils/logger.js';
+import { CARD_ACTION_RESPONSE, normalizeCardActionEvent, type InboundTransport } from './inbound-transport.js';
 
 interface LarkMessageEventData {
   event_id?: string;
@@ -18,6 +26,19 @@ interface LarkMessageEventData {
   message?: FeishuMessage;
 }
 
+interface LarkCardActionEventData {
+  event_id?: string;
+  operator?: FeishuCardActionEvent['operator'];
+  action?: {
+    value?: unknown;
+    tag?: string;
+  };
+  context?: {
+    open_message_id?: string;
+    open_chat_id?: string;
+  };
+}
+
 const EMPTY_SENDER: FeishuSender = {
   sender_id: {},
   sender_type: 'unknown',
@@ -31,7 +52,8 @@ const EMPTY_MESSAGE: FeishuMessage = {
   content: '',
 };
 
-export class FeishuWSClient extends EventEmitter {
+export class FeishuWSClient extends EventEmitter implements InboundTransport {
+  readonly mode = 'websocket' as const;
   private readonly config: FeishuBotConfig;
   private readonly client: lark.Client;
   private wsClient: lark.WSClient | null = null;
@@ -54,6 +76,7 @@ export class FeishuWSClient extends EventEmitter {
       'im.message.receive_v1': async (data: LarkMessageEventData) => {
         await this.handleReceiveMessage(data);
       },
+      'card.action.trigger': async (data: LarkCardActionEventData) => this.handleCardAction(data),
     });
 
     this.wsClient = new lark.WSClient({
@@ -93,7 +116,24 @@ export class FeishuWSClient extends EventEmitter {
     this.emit('message', messageEvent);
   }
 
-  async sendMessage(chatId: string, content: string, msgType: string = 'text'): Promise<void> {
+  /** When the long connection last (re)connected; undefined before the first attempt. */
+  getLastConnectTime(): Date | undefined {
+    const lastConnectTime = this.wsClient?.getReconnectInfo().lastConnectTime;
+    return lastConnectTime ? new Date(lastConnectTime) : undefined;
+  }
+
+  private handleCardAction(data: LarkCardActionEventData): typeof CARD_ACTION_RESPONSE | undefined {
+    const actionEvent = normalizeCardActionEvent(data.event_id || '', data);
+    if (!actionEvent) {
+      Logger.warn('FeishuWSClient', 'Ignoring malformed card action event');
+      return undefined;
+    }
+
+    this.emit('cardAction', actionEvent);
+    return CARD_ACTION_RESPONSE;
+  }
+
+  async sendMessage(chatId: string, content: string, msgType: string = 'text'): Promise<string> {
     Logger.info('FeishuWSClient', `Sending message to chat ${chatId}`);
 
     try {
@@ -112,12 +152,39 @@ export class FeishuWSClient extends EventEmitter {
       if (resp.code !== 0) {
         throw new Error(`Failed to send message: ${resp.msg}`);
       }
+      return resp.data?.message_id || '';
     } catch (error) {
       Logger.error('FeishuWSClient', `Failed to send message: ${this.getErrorMessage(error)}`);
       throw error;
     }
   }
 
+  async updateMessage(messageId: string, content: string, msgType: string = 'interactive'): Promise<void> {
+    if (!messageId) {
+      throw new Error('messageId is required when updating message');
+    }
+
+    Logger.debug('FeishuWSClient', `Updating message ${messageId}`);
+
+    try {
+      const resp = await this.client.im.v1.message.patch({
+        path: {
+          message_id: messageId,
+        },
+        data: {
+          content: this.formatMessageContent(content, msgType),
+        },
+      });
+
+      if (resp.code !== 0) {
+        throw new Error(`Failed to update message: ${resp.msg}`);
+      }
+    } catch (error) {
+      Logger.error('FeishuWSClient', `Failed to update message: ${this.getErrorMessage(error)}`);
+      throw error;
+    }
+  }
+
   async sendFile(chatId: string, filePath: string): Promise<void> {
     const fileName = basename(filePath);
     const fileType = this.guessUploadFileType(fileName);
@@ -236,7 +303,42 @@ export class FeishuWSClient extends EventEmitter {
     }
   }
 
-  async replyToMessage(messageId: string, content: string, msgType: string = 'text'): Promise<void> {
+  async getMessage(messageId: string): Promise<FeishuMessageSnapshot | null> {
+    Logger.debug('FeishuWSClient', `Fetching message ${messageId}`);
+
+    try {
+      const resp = await this.client.im.v1.message.get({
+        path: {
+          message_id: messageId,
+        },
+      });
+
+      if (resp.code !== 0) {
+        throw new Error(`Failed to get message: ${resp.msg}`);
+      }
+
+      const item = resp.data?.items?.[0];
+      if (!item || item.deleted) {
+        return null;
+      }
+      return {
+        messageId: item.message_id || messageId,
+        messageType: item.msg_type || 'text',
+        content: item.body?.content || '',
+        senderType: item.sender?.sender_type || '',
+      };
+    } catch (error) {
+      Logger.error('FeishuWSClient', `Failed to get message: ${this.getErrorMessage(error)}`);
+      throw error;
+    }
+  }
+
+  async replyToMessage(
+    messageId: string,
+    content: string,
+    msgType: string = 'text',
+    replyInThread: boolean = false,
+  ): Promise<string> {
     if (!messageId) {
       throw new Error('messageId is required when replying to message');
     }
@@ -252,12 +354,14 @@ export class FeishuWSClient extends EventEmitter {
         data: {
           content: payloadContent,
           msg_type: msgType,
+          reply_in_thread: replyInThread,
         },
       });
 
       if (resp.code !== 0) {
         throw new Error(`Failed to reply to message: ${resp.msg}`);
       }
+      return resp.data?.message_id || '';
     } catch (error) {
       Logger.error('FeishuWSClient', `Failed to reply to message: ${this.getErrorMessage(error)}`);
       throw error;
@@ -0,0 +1,60 @@
+import type { EventEmitter } from 'events';
+import type { ConnectionMode, FeishuCardActionEvent } from '../types.js';
+
+/**
+ * Source of inbound Feishu events. Implementations emit `message` with a
+ * normalized `FeishuMessageEvent` and `cardAction` with a
+ * `FeishuCardActionEvent`, regardless of how the event arrived.
+ */
+export interface InboundTransport extends EventEmitter {
+  readonly mode: ConnectionMode;
+  start(): Promise<void>;
+  stop(): Promise<void>;
+}
+
+/** Returned to Feishu within the 3s callback window; the actual work is reported in chat. */
+export const CARD_ACTION_RESPONSE = {
+  toast: {
+    type: 'info',
+    content: '已收到，正在处理',
+  },
+};
+
+interface CardActionPayload {
+  operator?: FeishuCardActionEvent['operator'];
+  action?: {
+    value?: unknown;
+  };
+  context?: {
+    open_message_id?: string;
+    open_chat_id?: string;
+  };
+}
+
+export function normalizeCardActionEvent(eventId: string, payload: CardActionPayload): FeishuCardActionEvent | null {
+  const chatId = payload.context?.open_chat_id || '';
+  const messageId = payload.context?.open_message_id || '';
+  const value = parseActionValue(payload.action?.value);
+  if (!chatId || !messageId || !value) {
+    return null;
+  }
+
+  return {
+    eventId,
+    operator: payload.operator || {},
+    chatId,
+    messageId,
+    value,
+  };
+}
+
+function parseActionValue(raw: unknown): Record<string, unknown> | null {
+  if (typeof raw === 'string') {
+    try {
+      return parseActionValue(JSON.parse(raw));
+    } catch {
+      return null;
+    }
+  }
+  return raw && typeof raw === 'object' ? raw as Record<string, unknown> : null;
+}
@@ -0,0 +1,206 @@
+import crypto from 'crypto';
+import net from 'net';
+import { afterEach, describe, expect, it } from 'vitest';
+import type { FeishuBotConfig } from '../types.js';
+import { WebhookServer } from './webhook-server.js';
+
+const ENCRYPT_KEY = 'test key';
+
+interface WebhookInternals {
+  decrypt(encrypted: string, encryptKey: string): string;
+  verifySignature(body: string, timestamp: string, nonce: string, signature: string): boolean;
+}
+
+function createServer(overrides: Partial<FeishuBotConfig> = {}): WebhookServer {
+  return new WebhookServer({
+    appId: 'cli_test',
+    appSecret: 'secret',
+    connectionMode: 'webhook',
+    encryptKey: ENCRYPT_KEY,
+    ...overrides,
+  });
+}
+
+function internals(server: WebhookServer): WebhookInternals {
+  return server as unknown as WebhookInternals;
+}
+
+function encrypt(plain: string, encryptKey: string): string {
+  const key = crypto.createHash('sha256').update(encryptKey).digest();
+  const iv = crypto.randomBytes(16);
+  const cipher = crypto.createCipheriv('aes-256-cbc', key, iv);
+  return Buffer.concat([iv, cipher.update(plain, 'utf8'), cipher.final()]).toString('base64');
+}
+
+function sign(body: string, timestamp: string, nonce: string, encryptKey: string): string {
+  return crypto.createHash('sha256').update(`${timestamp}${nonce}${encryptKey}${body}`).digest('hex');
+}
+
+async function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const probe = net.createServer();
+    probe.once('error', reject);
+    probe.listen(0, () => {
+      const { port } = probe.address() as net.AddressInfo;
+      probe.close(() => resolve(port));
+    });
+  });
+}
+
+describe('WebhookServer decryption', () => {
+  it('decrypts the example payload from the Feishu documentation', () => {
+    const server = createServer();
+    expect(internals(server).decrypt('P37w+VZImNgPEO1RBhJ6RtKl7n6zymIbEG1pReEzghk=', ENCRYPT_KEY)).toBe('hello world');
+  });
+
+  it('round-trips payloads encrypted with a random IV', () => {
+    const server = createServer();
+    const plain = JSON.stringify({ type: 'url_verification', challenge: '挑战-123' });
+    expect(internals(server).decrypt(encrypt(plain, ENCRYPT_KEY), ENCRYPT_KEY)).toBe(plain);
+  });
+
+  it('rejects ciphertext decrypted with the wrong key', () => {
+    const server = createServer();
+    const encrypted = encrypt('{"type":"url_verification"}', 'other key');
+    expect(() => internals(server).decrypt(encrypted, ENCRYPT_KEY)).toThrow();
+  });
+
+  it('rejects tampered ciphertext', () => {
+    const server = createServer();
+    const raw = Buffer.from(encrypt('{"type":"url_verification"}', ENCRYPT_KEY), 'base64');
+    raw[raw.length - 1] ^= 0xff;
+    expect(() => internals(server).decrypt(raw.toString('base64'), ENCRYPT_KEY)).toThrow();
+  });
+
+  it('rejects payloads shorter than the IV', () => {
+    const server = createServer();
+    expect(() => internals(server).decrypt(Buffer.alloc(16).toString('base64'), ENCRYPT_KEY)).toThrow('too short');
+  });
+});
+
+describe('WebhookServer signature check', () => {
+  const body = '{"encrypt":"abc"}';
+  const timestamp = '1700000000';
+  const nonce = 'nonce-1';
+
+  it('accepts the sha256 of timestamp, nonce, key and body', () => {
+    const server = createServer();
+    expect(internals(server).verifySignature(body, timestamp, nonce, sign(body, timestamp, nonce, ENCRYPT_KEY))).toBe(true);
+  });
+
+  it('rejects a signature over a tampered body', () => {
+    const server = createServer();
+    const signature = sign(body, timestamp, nonce, ENCRYPT_KEY);
+    expect(internals(server).verifySignature('{"encrypt":"abd"}', timestamp, nonce, signature)).toBe(false);
+  });
+
+  it('rejects a tampered or truncated signature', () => {
+    const server = createServer();
+    const signature = sign(body, timestamp, nonce, ENCRYPT_KEY);
+    const flipped = `${signature.slice(0, -1)}${signature.endsWith('0') ? '1' : '0'}`;
+    expect(internals(server).verifySignature(body, timestamp, nonce, flipped)).toBe(false);
+    expect(internals(server).verifySignature(body, timestamp, nonce, signature.slice(0, 10))).toBe(false);
+  });
+
+  it('rejects a signature made with another key', () => {
+    const server = createServer();
+    expect(internals(server).verifySignature(body, timestamp, nonce, sign(body, timestamp, nonce, 'other key'))).toBe(false);
+  });
+});
+
+describe('WebhookServer requests', () => {
+  let server: WebhookServer | undefined;
+
+  afterEach(async () => {
+    await server?.stop();
+    server = undefined;
+  });
+
+  async function startServer(overrides: Partial<FeishuBotConfig> = {}): Promise<string> {
+    const port = await freePort();
+    server = createServer({ webhookPort: port, ...overrides });
+    await server.start();
+    return `http://127.0.0.1:${port}/webhook`;
+  }
+
+  it('refuses to start without a verification token or encrypt key', async () => {
+    const unprotected = createServer({ encryptKey: undefined, verificationToken: undefined });
+    await expect(unprotected.start()).rejects.toThrow('FEISHU_VERIFICATION_TOKEN');
+  });
+
+  it('answers an encrypted url_verification challenge', async () => {
+    const url = await startServer();
+    const body = JSON.stringify({ encrypt: encrypt(JSON.stringify({ type: 'url_verification', challenge: 'c-1' }), ENCRYPT_KEY) });
+    const response = await fetch(url, { method: 'POST', body });
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ challenge: 'c-1' });
+  });
+
+  it('accepts a signed event and emits the message', async () => {
+    const url = await startServer();
+    const event = {
+      schema: '2.0',
+      header: { event_id: 'evt-1', event_type: 'im.message.receive_v1' },
+      event: {
+        sender: { sender_id: { open_id: 'ou_1' }, sender_type: 'user' },
+        message: { message_id: 'om_1', chat_id: 'oc_1', chat_type: 'p2p', message_type: 'text', content: '{"text":"hi"}' },
+      },
+    };
+    const body = JSON.stringify({ encrypt: encrypt(JSON.stringify(event), ENCRYPT_KEY) });
+    const timestamp = '1700000000';
+    const nonce = 'nonce-2';
+    const received = new Promise(resolve => server!.once('message', resolve));
+
+    const response = await fetch(url, {
+      method: 'POST',
+      body,
+      headers: {
+        'x-lark-request-timestamp': timestamp,
+        'x-lark-request-nonce': nonce,
+        'x-lark-signature': sign(body, timestamp, nonce, ENCRYPT_KEY),
+      },
+    });
+
+    expect(response.status).toBe(200);
+    await expect(received).resolves.toMatchObject({ event: { message: { message_id: 'om_1', chat_id: 'oc_1' } } });
+  });
+
+  it('rejects an event whose body was changed after signing', async () => {
+    const url = await startServer();
+    const body = JSON.stringify({ encrypt: encrypt('{"schema":"2.0"}', ENCRYPT_KEY) });
+    const timestamp = '1700000000';
+    const nonce = 'nonce-3';
+    const response = await fetch(url, {
+      method: 'POST',
+      body: body.replace('{"encrypt":"', '{"encrypt":"A'),
+      headers: {
+        'x-lark-request-timestamp': timestamp,
+        'x-lark-request-nonce': nonce,
+        'x-lark-signature': sign(body, timestamp, nonce, ENCRYPT_KEY),
+      },
+    });
+    expect(response.status).toBe(401);
+  });
+
+  it('rejects unsigned events when an encrypt key is configured', async () => {
+    const url = await startServer();
+    const body = JSON.stringify({ encrypt: encrypt('{"schema":"2.0","header":{"event_type":"im.message.receive_v1"}}', ENCRYPT_KEY) });
+    const response = await fetch(url, { method: 'POST', body });
+    expect(response.status).toBe(401);
+  });
+
+  it('rejects a wrong verification token', async () => {
+    const url = await startServer({ encryptKey: undefined, verificationToken: 'expected' });
+    const response = await fetch(url, {
+      method: 'POST',
+      body: JSON.stringify({ type: 'url_verification', challenge: 'c-2', token: 'wrong' }),
+    });
+    expect(response.status).toBe(401);
+  });
+
+  it('answers 413 for oversized bodies', async () => {
+    const url = await startServer();
+    const response = await fetch(url, { method: 'POST', body: 'x'.repeat(1024 * 1024 + 1) });
+    expect(response.status).toBe(413);
+  });
+});
@@ -1,35 +1,52 @@
 import http from 'http';
 import crypto from 'crypto';
 import { EventEmitter } from 'events';
-import { FeishuMessageEvent, FeishuBotConfig } from '../types.js';
+import type { FeishuBotConfig, FeishuMessage, FeishuMessageEvent, FeishuSender } from '../types.js';
 import { logger } from '../utils/logger.js';
+import { CARD_ACTION_RESPONSE, normalizeCardActionEvent, type InboundTransport } from './inbound-transport.js';
 
-interface MessageHandler {
-  (message: FeishuMessageEvent): Promise<void>;
+interface WebhookRequestPayload {
+  encrypt?: string;
+  challenge?: string;
+  token?: string;
+  type?: string;
+  schema?: string;
+  event_id?: string;
+  tenant_key?: string;
+  header?: {
+    event_id?: string;
+    event_type?: string;
+    token?: string;
+    create_time?: string;
+    tenant_key?: string;
+    app_id?: string;
+  };
+  event?: Record<string, unknown>;
 }
 
-export class WebhookServer extends EventEmitter {
+export class WebhookServer extends EventEmitter implements InboundTransport {
+  readonly mode = 'webhook' as const;
+  // Feishu events are a few KB; anything far larger is not from Feishu.
+  private static readonly MAX_BODY_BYTES = 1024 * 1024;
   private server: http.Server | null = null;
   private config: FeishuBotConfig;
-  private messageHandler: MessageHandler | null = null;
 
   constructor(config: FeishuBotConfig) {
     super();
     this.config = config;
   }
 
-  on(event: 'message', listener: MessageHandler): this;
-  on(event: string, listener: (...args: any[]) => void): this {
-    if (event === 'message') {
-      this.messageHandler = listener as MessageHandler;
+  async start(): Promise<void> {
+    // Without either secret every request would be trusted, letting anyone who reaches the port start tasks.
+    if (!this.config.verificationToken && !this.config.encryptKey) {
+      throw new Error('Webhook mode requires FEISHU_VERIFICATION_TOKEN or FEISHU_ENCRYPT_KEY to authenticate requests');
     }
-    return super.on(event, listener);
-  }
 
-  start(port: number): void {
-    this.server = http.createServer(async (req, res) => {
+    const port = this.config.webhookPort || 3000;
+
+    this.server = http.createServer((req, res) => {
       const url = new URL(req.url || '/', `http://localhost:${port}`);
-      
+
       if (req.method === 'GET' && url.pathname === '/webhook') {
         const challenge = url.searchParams.get('challenge');
         if (challenge) {
@@ -38,56 +55,33 @@ export class WebhookServer extends EventEmitter {
           return;
         }
       }
-      
+
       if (req.method === 'POST' && url.pathname === '/webhook') {
-        let body = '';
-        req.on('data', chunk => body += chunk);
-        req.on('end', async () => {
+        const chunks: Buffer[] = [];
+        let size = 0;
+        let rejected = false;
+        req.on('data', (chunk: Buffer) => {
+          if (rejected) {
+            return;
+          }
+          size += chunk.length;
+          if (size > WebhookServer.MAX_BODY_BYTES) {
+            rejected = true;
+            logger.warn(`Rejected webhook request larger than ${WebhookServer.MAX_BODY_BYTES} bytes`);
+            res.writeHead(413, { Connection: 'close' });
+            res.end('Payload too large');
+            res.once('finish', () => req.destroy());
+            return;
+          }
+          chunks.push(chunk);
+        });
+        req.on('end', () => {
+          if (rejected) {
+            return;
+          }
+          const body = Buffer.concat(chunks).toString('utf8');
           try {
-            const payload = JSON.parse(body);
-            
-            if (this.config.encryptKey) {
-              const signature = req.headers['x-lark-signature'] as string;
-              const timestamp = req.headers['x-lark-timestamp'] as string;
-              
-              if (!this.verifySignature(body, timestamp, signature)) {
-                res.writeHead(401);
-                res.end('Invalid signature');
-                return;
-              }
-            }
-            
-            if (payload.type === 'url_verification') {
-              res.writeHead(200, { 'Content-Type': 'application/json' });
-              res.end(JSON.stringify({ challenge: payload.challenge }));
-              return;
-            }
-            
-            if (payload.type === 'event_callback' && payload.event) {
-              const eventType = payload.event.type;
-              
-              if (eventType === 'message') {
-                const messageEvent: FeishuMessageEvent = {
-                  schema: '2.0',
-                  header: {
-                    event_id: payload.event_id || '',
-                    token: '',
-                    create_time: payload.event.create_time || '',
-                    event_type: payload.event.type,
-                    tenant_key: payload.tenant_key || '',
-                    app_id: '',
-                  },
-                  event: payload.event,
-                };
-                
-                if (this.messageHandler) {
-                  await this.messageHandler(messageEvent);
-                }
-              }
-            }
-            
-            res.writeHead(200);
-            res.end('OK');
+            this.handleRequest(req, res, body);
           } catch (error) {
             logger.error('Webhook error:', error);
             res.writeHead(500);
@@ -100,15 +94,22 @@ export class WebhookServer extends EventEmitter {
       }
     });
 
-    this.server.listen(port, () => {
-      logger.info(`Webhook server listening on port ${port}`);
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(port, () => {
+        this.server!.off('error', reject);
+        logger.info(`Webhook server listening on port ${port}`);
+        resolve();
+      });
     });
   }
 
   async stop(): Promise<void> {
     if (this.server) {
+      const server = this.server;
+      this.server = null;
       return new Promise((resolve) => {
-        this.server!.close(() => {
+        server.close(() => {
           logger.info('Webhook server stopped');
           resolve();
         });
@@ -116,19 +117,180 @@ export class WebhookServer extends EventEmitter {
     }
   }
 
-  private verifySignature(body: string, timestamp: string, signature: string): boolean {
+  private handleRequest(req: http.IncomingMessage, res: http.ServerResponse, body: string): void {
+    const signature = this.readHeader(req, 'x-lark-signature');
+    if (this.config.encryptKey && signature) {
+      const timestamp = this.readHeader(req, 'x-lark-request-timestamp');
+      const nonce = this.readHeader(req, 'x-lark-request-nonce');
+
+      if (!this.verifySignature(body, timestamp, nonce, signature)) {
+        logger.warn('Rejected webhook request with invalid signature');
+        res.writeHead(401);
+        res.end('Invalid signature');
+        return;
+      }
+    }
+
+    const payload = this.decodePayload(body);
+
+    if (!this.verifyToken(payload)) {
+      logger.warn('Rejected webhook request with invalid verification token');
+      res.writeHead(401);
+      res.end('Invalid token');
+      return;
+    }
+
+    if (payload.type === 'url_verification') {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ challenge: payload.challenge }));
+      return;
+    }
+
+    // Feishu only skips the signature headers for url_verification requests.
+    if (this.config.encryptKey && !signature) {
+      logger.warn('Rejected unsigned webhook event');
+      res.writeHead(401);
+      res.end('Missing signature');
+      return;
+    }
+
+    if (payload.schema === '2.0' && payload.header?.event_type === 'card.action.trigger') {
+      this.handleCardAction(payload, res);
+      return;
+    }
+
+    // Acknowledge before dispatching: Feishu retries deliveries not answered within 3s.
+    res.writeHead(200);
+    res.end('OK');
+
+    const messageEvent = payload.schema === '2.0'
+      ? this.normalizeSchemaV2Event(payload)
+      : this.normalizeLegacyEvent(payload);
+    if (!messageEvent) {
+      return;
+    }
+
+    if (!messageEvent.event.message.message_id || !messageEvent.event.message.chat_id) {
+      logger.warn('Ignoring malformed webhook message event');
+      return;
+    }
+
+    this.emit('message', messageEvent);
+  }
+
+  private handleCardAction(payload: WebhookRequestPayload, res: http.ServerResponse): void {
+    const actionEvent = normalizeCardActionEvent(payload.header?.event_id || '', payload.event || {});
+
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(actionEvent ? CARD_ACTION_RESPONSE : {}));
+
+    if (!actionEvent) {
+      logger.warn('Ignoring malformed card action event');
+      return;
+    }
+    this.emit('cardAction', actionEvent);
+  }
+
+  private normalizeSchemaV2Event(payload: WebhookRequestPayload): FeishuMessageEvent | null {
+    const header = payload.header;
+    if (header?.event_type !== 'im.message.receive_v1' || !payload.event) {
+      logger.debug(`Ignoring webhook event type ${header?.event_type || 'unknown'}`);
+      return null;
+    }
+
+    return {
+      schema: '2.0',
+      header: {
+        event_id: header.event_id || '',
+        token: header.token || '',
+        create_time: header.create_time || '',
+        event_type: header.event_type,
+        tenant_key: header.tenant_key || '',
+        app_id: header.app_id || '',
+      },
+      event: {
+        sender: payload.event.sender as FeishuSender,
+        message: payload.event.message as FeishuMessage,
+      },
+    };
+  }
+
+  private normalizeLegacyEvent(payload: WebhookRequestPayload): FeishuMessageEvent | null {
+    if (payload.type !== 'event_callback' || !payload.event || payload.event.type !== 'message') {
+      return null;
+    }
+
+    return {
+      schema: '2.0',
+      header: {
+        event_id: payload.event_id || '',
+        token: payload.token || '',
+        create_time: String(payload.event.create_time || ''),
+        event_type: 'message',
+        tenant_key: payload.tenant_key || '',
+        app_id: '',
+      },
+      event: payload.event as unknown as FeishuMessageEvent['event'],
+    };
+  }
+
+  private decodePayload(body: string): WebhookRequestPayload {
+    const parsed = JSON.parse(body) as WebhookRequestPayload;
+    if (typeof parsed.encrypt !== 'string') {
+      return parsed;
+    }
+
+    if (!this.config.encryptKey) {
+      throw new Error('Received encrypted webhook payload but FEISHU_ENCRYPT_KEY is not configured');
+    }
+
+    return JSON.parse(this.decrypt(parsed.encrypt, this.config.encryptKey)) as WebhookRequestPayload;
+  }
+
+  private decrypt(encrypted: string, encryptKey: string): string {
+    const key = crypto.createHash('sha256').update(encryptKey).digest();
+    const raw = Buffer.from(encrypted, 'base64');
+    if (raw.length <= 16) {
+      throw new Error('Encrypted webhook payload is too short');
+    }
+
+    const iv = raw.subarray(0, 16);
+    const decipher = crypto.createDecipheriv('aes-256-cbc', key, iv);
+    return Buffer.concat([decipher.update(raw.subarray(16)), decipher.final()]).toString('utf8');
+  }
+
+  private verifyToken(payload: WebhookRequestPayload): boolean {
+    const { verificationToken } = this.config;
+    if (!verificationToken) return true;
+
+    const token = payload.header?.token || payload.token || '';
+    return this.safeEqual(token, verificationToken);
+  }
+
+  private verifySignature(body: string, timestamp: string, nonce: string, signature: string): boolean {
     const { encryptKey } = this.config;
     if (!encryptKey) return true;
-    
-    const signStr = `${timestamp}${body}`;
+
     const expectedSignature = crypto
-      .createHmac('sha256', encryptKey)
-      .update(signStr)
+      .createHash('sha256')
+      .update(`${timestamp}${nonce}${encryptKey}${body}`)
       .digest('hex');
-    
-    return crypto.timingSafeEqual(
-      Buffer.from(signature),
-      Buffer.from(expectedSignature)
-    );
+
+    return this.safeEqual(signature, expectedSignature);
+  }
+
+  private safeEqual(actual: string, expected: string): boolean {
+    const actualBuffer = Buffer.from(actual);
+    const expectedBuffer = Buffer.from(expected);
+    // timingSafeEqual throws on length mismatch, which is just a failed comparison here.
+    if (actualBuffer.length !== expectedBuffer.length) {
+      return false;
+    }
+    return crypto.timingSafeEqual(actualBuffer, expectedBuffer);
+  }
+
+  private readHeader(req: http.IncomingMessage, name: string): string {
+    const value = req.headers[name];
+    return Array.isArray(value) ? value[0] || '' : value || '';
   }
 }
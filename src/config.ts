@@ -1,4 +1,6 @@
-import type { LogLevel, NotificationMode } from './types.js';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { ConnectionMode, LogLevel, NotificationMode, ReplyMode, StateBackendType, UserRole } from './types.js';
 
 export interface Config {
   version: string;
@@ -14,6 +16,9 @@ export interface Config {
     verificationToken?: string;
     connectionMode: 'websocket' | 'webhook';
     webhookPort?: number;
+    eventDedupTtl: number;
+    eventDedupMaxEntries: number;
+    replyMode: ReplyMode;
     receiveMessage: boolean;
   };
   opencode: {
@@ -29,6 +34,11 @@ export interface Config {
     intentRoutingTimeout: number;
     intentRoutingConfidence: number;
     progressStatusOnly: boolean;
+    progressCardEnabled: boolean;
+    retryWindow: number;
+    changeSummaryEnabled: boolean;
+    worktreeIsolation: boolean;
+    worktreeDir: string;
     resultCardEnabled: boolean;
     conciseResultDefault: boolean;
     cardDedupThreshold: number;
@@ -36,14 +46,46 @@ export interface Config {
     normalProgressInterval: number;
     executeFirstDefault: boolean;
     executePolicyPrompt?: string;
+    readOnlyAgent?: string;
+  };
+  approval: {
+    enabled: boolean;
+    patterns: string[];
+  };
+  scheduler: {
+    enabled: boolean;
+    maxJobsPerChat: number;
+  };
+  projects: {
+    roots: string[];
+    bindingsFile?: string;
+  };
+  speech: {
+    path?: string;
+    args: string[];
+    timeout: number;
   };
   session: {
     timeout: number;
+    sweepInterval: number;
+    notifyOnExpiry: boolean;
     maxHistory: number;
   };
+  storage: {
+    backend: StateBackendType;
+    path: string;
+    interruptedTaskTtl: number;
+    transcriptDir: string;
+    transcriptRetention: number;
+  };
   security: {
     allowedUsers: string[];
+    allowedChats: string[];
     requireMention: boolean;
+    adminUsers: string[];
+    operatorUsers: string[];
+    viewerUsers: string[];
+    defaultRole: UserRole;
   };
 }
 
@@ -55,6 +97,22 @@ const parseNotificationMode = (value: string | undefined): NotificationMode => {
   return 'quiet';
 };
 
+const parseConnectionMode = (value: string | undefined): ConnectionMode => {
+  return (value || '').trim().toLowerCase() === 'webhook' ? 'webhook' : 'websocket';
+};
+
+const parseReplyMode = (value: string | undefined): ReplyMode => {
+  const normalized = (value || '').trim().toLowerCase();
+  if (normalized === 'reply' || normalized === 'thread') {
+    return normalized;
+  }
+  return 'chat';
+};
+
+const parseStateBackend = (value: string | undefined): StateBackendType => {
+  return (value || '').trim().toLowerCase() === 'memory' ? 'memory' : 'json';
+};
+
 const parseCardDedupThreshold = (value: string | undefined): number => {
   const parsed = Number.parseFloat((value || '').trim());
   if (!Number.isFinite(parsed)) {
@@ -69,6 +127,49 @@ const parseCardDedupThreshold = (value: string | undefined): number => {
   return parsed;
 };
 
+const parseList = (value: string | undefined): string[] => {
+  return (value || '')
+    .split(',')
+    .map(item => item.trim())
+    .filter(Boolean);
+};
+
+/**
+ * Regex lists can contain commas, so they are given as a JSON array or
+ * separated by newlines or `;`.
+ */
+const parsePatternList = (value: string | undefined): string[] => {
+  const text = (value || '').trim();
+  if (text.startsWith('[')) {
+    try {
+      const parsed = JSON.parse(text) as unknown;
+      if (Array.isArray(parsed)) {
+        return parsed.filter((item): item is string => typeof item === 'string' && item.trim() !== '');
+      }
+    } catch {
+      // Not JSON after all; fall through to the plain-text form.
+    }
+  }
+  return text
+    .split(/[;\r\n]+/)
+    .map(item => item.trim())
+    .filter(Boolean);
+};
+
+const parseRole = (value: string | undefined, fallback: UserRole): UserRole => {
+  const normalized = (value || '').trim().toLowerCase();
+  if (normalized === 'admin' || normalized === 'operator' || normalized === 'viewer') {
+    return normalized;
+  }
+  return fallback;
+};
+
+const adminUsers = parseList(process.env.ADMIN_USERS);
+const operatorUsers = parseList(process.env.OPERATOR_USERS);
+const viewerUsers = parseList(process.env.VIEWER_USERS);
+const projectRoots = parseList(process.env.PROJECT_ROOTS);
+const hasRoleLists = adminUsers.length + operatorUsers.length + viewerUsers.length > 0;
+
 const defaultConfig: Config = {
   version: '1.0.0',
   port: 3000,
@@ -80,8 +181,11 @@ const defaultConfig: Config = {
     appSecret: process.env.FEISHU_APP_SECRET || '',
     encryptKey: process.env.FEISHU_ENCRYPT_KEY,
     verificationToken: process.env.FEISHU_VERIFICATION_TOKEN,
-    connectionMode: 'websocket',
+    connectionMode: parseConnectionMode(process.env.FEISHU_CONNECTION_MODE),
     webhookPort: parseInt(process.env.FEISHU_WEBHOOK_PORT || '3000'),
+    eventDedupTtl: parseInt(process.env.FEISHU_EVENT_DEDUP_TTL || '43200000'),
+    eventDedupMaxEntries: parseInt(process.env.FEISHU_EVENT_DEDUP_MAX || '10000'),
+    replyMode: parseReplyMode(process.env.FEISHU_REPLY_MODE),
     receiveMessage: true,
   },
   opencode: {
@@ -97,6 +201,11 @@ const defaultConfig: Config = {
     intentRoutingTimeout: parseInt(process.env.OPENCODE_INTENT_ROUTING_TIMEOUT || '8000'),
     intentRoutingConfidence: parseFloat(process.env.OPENCODE_INTENT_CONFIDENCE || '0.75'),
     progressStatusOnly: process.env.OPENCODE_PROGRESS_STATUS_ONLY !== 'false',
+    progressCardEnabled: process.env.OPENCODE_PROGRESS_CARD_ENABLED !== 'false',
+    retryWindow: parseInt(process.env.OPENCODE_RETRY_WINDOW || '3600000'),
+    changeSummaryEnabled: process.env.OPENCODE_CHANGE_SUMMARY_ENABLED !== 'false',
+    worktreeIsolation: process.env.OPENCODE_WORKTREE_ISOLATION === 'true',
+    worktreeDir: process.env.OPENCODE_WORKTREE_DIR || join(tmpdir(), 'opencode-feishu-worktrees'),
     resultCardEnabled: process.env.OPENCODE_RESULT_CARD_ENABLED !== 'false',
     conciseResultDefault: process.env.OPENCODE_CONCISE_RESULT_DEFAULT !== 'false',
     cardDedupThreshold: parseCardDedupThreshold(process.env.OPENCODE_CARD_DEDUP_THRESHOLD),
@@ -106,14 +215,49 @@ const defaultConfig: Config = {
     executePolicyPrompt: process.env.OPENCODE_EXECUTE_POLICY_PROMPT
       ? process.env.OPENCODE_EXECUTE_POLICY_PROMPT.replace(/\\n/g, '\n')
       : undefined,
+    readOnlyAgent: (process.env.OPENCODE_READONLY_AGENT ?? 'plan').trim() || undefined,
+  },
+  approval: {
+    enabled: process.env.TASK_APPROVAL_ENABLED === 'true',
+    patterns: parsePatternList(process.env.TASK_APPROVAL_PATTERNS),
+  },
+  scheduler: {
+    enabled: process.env.SCHEDULER_ENABLED !== 'false',
+    maxJobsPerChat: parseInt(process.env.SCHEDULER_MAX_JOBS_PER_CHAT || '20'),
+  },
+  projects: {
+    roots: projectRoots.length > 0
+      ? projectRoots
+      : [process.env.OPENCODE_WORKING_DIR || process.cwd()],
+    bindingsFile: process.env.PROJECT_BINDINGS_FILE || undefined,
+  },
+  speech: {
+    path: process.env.STT_PATH || undefined,
+    args: (process.env.STT_ARGS || '').split(/\s+/).filter(Boolean),
+    timeout: parseInt(process.env.STT_TIMEOUT || '60000'),
   },
   session: {
     timeout: parseInt(process.env.SESSION_TIMEOUT || '3600000'),
+    sweepInterval: parseInt(process.env.SESSION_SWEEP_INTERVAL || '60000'),
+    notifyOnExpiry: process.env.SESSION_EXPIRY_NOTIFY === 'true',
     maxHistory: parseInt(process.env.SESSION_MAX_HISTORY || '20'),
   },
+  storage: {
+    backend: parseStateBackend(process.env.STATE_BACKEND),
+    path: process.env.STATE_FILE || join(process.cwd(), 'data', 'bridge-state.json'),
+    interruptedTaskTtl: parseInt(process.env.INTERRUPTED_TASK_TTL || '86400000'),
+    transcriptDir: process.env.TRANSCRIPT_DIR || join(process.cwd(), 'data', 'transcripts'),
+    transcriptRetention: parseInt(process.env.TRANSCRIPT_RETENTION || '1209600000'),
+  },
   security: {
-    allowedUsers: process.env.ALLOWED_USERS?.split(',') || [],
+    allowedUsers: parseList(process.env.ALLOWED_USERS),
+    allowedChats: parseList(process.env.ALLOWED_CHATS),
     requireMention: process.env.REQUIRE_MENTION !== 'false',
+    adminUsers,
+    operatorUsers,
+    viewerUsers,
+    // Without any role lists everyone keeps full access, matching pre-role behaviour.
+    defaultRole: parseRole(process.env.DEFAULT_ROLE, hasRoleLists ? 'viewer' : 'admin'),
   },
 };
 
@@ -0,0 +1,70 @@
+import { copyFile, mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { isAbsolute, join } from 'path';
+import type { TaskChanges } from '../types.js';
+import { logger } from '../utils/logger.js';
+import { parseNumstat, runGit } from './git.js';
+
+export interface ChangeBaseline {
+  repoRoot: string;
+  tree: string;
+}
+
+/**
+ * Records what a task changed on disk by snapshotting the working tree
+ * (tracked and untracked, honouring .gitignore) into git tree objects before
+ * and after the run. Snapshots go through a throwaway index, so the user's
+ * staging area and HEAD are never touched.
+ */
+export class ChangeTracker {
+  private readonly excludedDirs: string[];
+
+  constructor(excludedDirs: string[] = []) {
+    this.excludedDirs = excludedDirs;
+  }
+
+  async begin(workingDir: string): Promise<ChangeBaseline | undefined> {
+    let repoRoot: string;
+    try {
+      repoRoot = (await runGit(['rev-parse', '--show-toplevel'], workingDir)).trim();
+    } catch {
+      return undefined;
+    }
+    return { repoRoot, tree: await this.snapshotTree(repoRoot) };
+  }
+
+  async finish(baseline: ChangeBaseline): Promise<TaskChanges> {
+    const tree = await this.snapshotTree(baseline.repoRoot);
+    return this.describe(baseline.repoRoot, baseline.tree, tree);
+  }
+
+  async describe(repoRoot: string, from: string, to: string): Promise<TaskChanges> {
+    const files = parseNumstat(await runGit(['diff', '--numstat', '-M', from, to], repoRoot));
+    return { repoRoot, from, to, files };
+  }
+
+  async renderPatch(changes: TaskChanges): Promise<string> {
+    return await runGit(['diff', '--binary', '-M', changes.from, changes.to], changes.repoRoot);
+  }
+
+  private async snapshotTree(repoRoot: string): Promise<string> {
+    const tempDir = await mkdtemp(join(tmpdir(), 'opencode-feishu-index-'));
+    const indexPath = join(tempDir, 'index');
+    try {
+      // Starting from a copy of the real index keeps git's stat cache, so only modified files are rehashed.
+      const realIndex = (await runGit(['rev-parse', '--git-path', 'index'], repoRoot)).trim();
+      try {
+        await copyFile(isAbsolute(realIndex) ? realIndex : join(repoRoot, realIndex), indexPath);
+      } catch {
+        logger.debug(`No git index to copy in ${repoRoot}; snapshot starts empty`);
+      }
+
+      const env = { ...process.env, GIT_INDEX_FILE: indexPath };
+      const excludes = this.excludedDirs.map(dir => `:(exclude,glob)**/${dir}/**`);
+      await runGit(['add', '-A', '--', '.', ...excludes], repoRoot, env);
+      return (await runGit(['write-tree'], repoRoot, env)).trim();
+    } finally {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  }
+}
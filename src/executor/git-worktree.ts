@@ -0,0 +1,147 @@
+import { mkdir, realpath } from 'fs/promises';
+import { join, relative } from 'path';
+import { config } from '../config.js';
+import type { TaskWorktree } from '../types.js';
+import { logger } from '../utils/logger.js';
+import { runGit } from './git.js';
+
+/**
+ * Runs each task in its own `git worktree` on a `feishu/<taskId>` branch so
+ * concurrent tasks in one repository cannot overwrite each other's edits.
+ * When a task ends its changes are committed on the branch and the worktree
+ * directory is removed; the branch waits for a merge/keep/discard decision.
+ */
+export class GitWorktreeManager {
+  private readonly baseDir: string;
+  private readonly BRANCH_PREFIX = 'feishu/';
+
+  constructor(baseDir = config.opencode.worktreeDir) {
+    this.baseDir = baseDir;
+  }
+
+  /**
+   * Returns undefined when `workingDir` is not inside a git repository with
+   * at least one commit; such tasks run in place.
+   */
+  async create(taskId: string, workingDir: string): Promise<TaskWorktree | undefined> {
+    let repoRoot: string;
+    let baseCommit: string;
+    try {
+      repoRoot = (await runGit(['rev-parse', '--show-toplevel'], workingDir)).trim();
+      baseCommit = (await runGit(['rev-parse', 'HEAD'], repoRoot)).trim();
+    } catch {
+      logger.info(`Working directory ${workingDir} is not a git repository with commits; task ${taskId} runs in place`);
+      return undefined;
+    }
+
+    const branch = `${this.BRANCH_PREFIX}${taskId}`;
+    const path = join(this.baseDir, taskId);
+    await mkdir(this.baseDir, { recursive: true });
+    await runGit(['worktree', 'add', '-b', branch, path, baseCommit], repoRoot);
+    logger.info(`Created worktree ${path} on branch ${branch} for task ${taskId}`);
+
+    return {
+      repoRoot,
+      path,
+      branch,
+      baseCommit,
+      subdir: relative(repoRoot, await realpath(workingDir)),
+      state: 'active',
+    };
+  }
+
+  /**
+   * Commits whatever the task left in its worktree, removes the directory and
+   * returns the branch head. A branch without commits is deleted right away.
+   */
+  async seal(taskId: string, worktree: TaskWorktree): Promise<string> {
+    await runGit(['add', '-A'], worktree.path);
+    const status = await runGit(['status', '--porcelain'], worktree.path);
+    if (status.trim()) {
+      await runGit([...await this.identityArgs(worktree.path), 'commit', '-q', '-m', `Feishu task ${taskId}`], worktree.path);
+    }
+
+    const head = (await runGit(['rev-parse', 'HEAD'], worktree.path)).trim();
+    await runGit(['worktree', 'remove', '--force', worktree.path], worktree.repoRoot);
+
+    if (head === worktree.baseCommit) {
+      await runGit(['branch', '-D', worktree.branch], worktree.repoRoot);
+      worktree.state = 'discarded';
+    } else {
+      worktree.state = 'pending';
+    }
+    return head;
+  }
+
+  /**
+   * Settles a worktree left `active` by a restart: seals it like a finished
+   * task, or, when that fails (e.g. the directory is gone), drops the stale
+   * registration and keeps the branch only if it has commits.
+   */
+  async recover(taskId: string, worktree: TaskWorktree): Promise<string> {
+    try {
+      return await this.seal(taskId, worktree);
+    } catch (error) {
+      logger.warn(`Failed to seal leftover worktree ${worktree.path} for task ${taskId}; pruning it`, error);
+    }
+
+    await runGit(['worktree', 'remove', '--force', worktree.path], worktree.repoRoot).catch(() => undefined);
+    await runGit(['worktree', 'prune'], worktree.repoRoot);
+
+    let head: string;
+    try {
+      head = (await runGit(['rev-parse', '--verify', `refs/heads/${worktree.branch}`], worktree.repoRoot)).trim();
+    } catch {
+      worktree.state = 'discarded';
+      return worktree.baseCommit;
+    }
+
+    if (head === worktree.baseCommit) {
+      await runGit(['branch', '-D', worktree.branch], worktree.repoRoot);
+      worktree.state = 'discarded';
+    } else {
+      worktree.state = 'pending';
+    }
+    return head;
+  }
+
+  /**
+   * Merges the task branch into whatever is checked out in the main worktree.
+   * A conflicting merge is aborted and the branch is left untouched.
+   */
+  async merge(worktree: TaskWorktree): Promise<void> {
+    try {
+      await runGit(
+        [...await this.identityArgs(worktree.repoRoot), 'merge', '--no-ff', '--no-edit', worktree.branch],
+        worktree.repoRoot,
+      );
+    } catch (error) {
+      await runGit(['merge', '--abort'], worktree.repoRoot).catch(() => undefined);
+      throw error;
+    }
+    await runGit(['branch', '-d', worktree.branch], worktree.repoRoot);
+    worktree.state = 'merged';
+  }
+
+  keep(worktree: TaskWorktree): void {
+    worktree.state = 'kept';
+  }
+
+  async discard(worktree: TaskWorktree): Promise<void> {
+    await runGit(['branch', '-D', worktree.branch], worktree.repoRoot);
+    worktree.state = 'discarded';
+  }
+
+  /**
+   * Service accounts often have no git identity; commit as the bridge rather
+   * than failing and losing the task's changes.
+   */
+  private async identityArgs(cwd: string): Promise<string[]> {
+    try {
+      await runGit(['config', 'user.email'], cwd);
+      return [];
+    } catch {
+      return ['-c', 'user.name=opencode-feishu-bridge', '-c', 'user.email=opencode-feishu-bridge@localhost'];
+    }
+  }
+}
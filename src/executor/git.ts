@@ -0,0 +1,37 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import type { TaskChangedFile } from '../types.js';
+
+const execFileAsync = promisify(execFile);
+const GIT_MAX_BUFFER = 16 * 1024 * 1024;
+
+export async function runGit(args: string[], cwd: string, env: NodeJS.ProcessEnv = process.env): Promise<string> {
+  const { stdout } = await execFileAsync('git', args, {
+    cwd,
+    env,
+    maxBuffer: GIT_MAX_BUFFER,
+  });
+  return stdout;
+}
+
+/**
+ * Parses `git diff --numstat` output. Binary files report `-` for both
+ * counts; renames (`-M`) are shown as `old => new`.
+ */
+export function parseNumstat(output: string): TaskChangedFile[] {
+  const files: TaskChangedFile[] = [];
+  for (const line of output.split('\n')) {
+    const match = line.match(/^(\d+|-)\t(\d+|-)\t(.+)$/);
+    if (!match) {
+      continue;
+    }
+    const binary = match[1] === '-' && match[2] === '-';
+    files.push({
+      path: match[3]!,
+      added: binary ? 0 : Number(match[1]),
+      removed: binary ? 0 : Number(match[2]),
+      ...(binary ? { binary: true } : {}),
+    });
+  }
+  return files;
+}
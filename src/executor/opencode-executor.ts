@@ -1,8 +1,18 @@
-import { spawn, spawnSync, type ChildProcess } from 'child_process';
+import { execFile, spawn, spawnSync, type ChildProcess } from 'child_process';
 import { EventEmitter } from 'events';
-import type { ExecutionResult, TaskInfo } from '../types.js';
+import { join } from 'path';
+import { promisify } from 'util';
+import type { ExecutionResult, TaskInfo, TaskWorktree, WorktreeAction } from '../types.js';
 import { config } from '../config.js';
+import { reviveDate } from '../storage/state-store.js';
+import { TranscriptStore, type TaskTranscript } from '../storage/transcript-store.js';
 import { logger } from '../utils/logger.js';
+import { ChangeTracker, type ChangeBaseline } from './change-tracker.js';
+import { GitWorktreeManager } from './git-worktree.js';
+
+const execFileAsync = promisify(execFile);
+// Merged by opencode into its permission config; read-only runs may only read and answer.
+const READ_ONLY_PERMISSION = JSON.stringify({ edit: 'deny', bash: 'deny', webfetch: 'deny' });
 
 interface RunningTask {
   process: ChildProcess;
@@ -14,6 +24,9 @@ interface RunningTask {
   finalized: boolean;
   stdoutBuffer: string;
   lastProgressSignature: string;
+  changeBaseline?: ChangeBaseline;
+  changesMayOverlap?: boolean;
+  transcript: TaskTranscript;
 }
 
 interface QueuedTask {
@@ -49,11 +62,18 @@ export class OpencodeExecutor extends EventEmitter {
   private runningTasks = new Map<string, RunningTask>();
   private taskStore = new Map<string, TaskInfo>();
   private taskQueue: QueuedTask[] = [];
+  private heldTasks = new Map<string, QueuedTask>();
+  private transcripts = new TranscriptStore();
+  private worktrees = new GitWorktreeManager();
+  // Attachments staged for other sessions must not show up as task changes.
+  private changeTracker = new ChangeTracker(['.feishu_uploads']);
   private runningCount = 0;
   private maxConcurrent: number;
   private detectedModel: string | undefined;
   private hasTriedModelDetection = false;
+  private opencodeVersion: Promise<string | undefined> | undefined;
   private readonly MAX_TASK_STORE = 500;
+  private readonly PERSISTED_OUTPUT_MAX_LENGTH = 20000;
 
   constructor() {
     super();
@@ -71,6 +91,9 @@ export class OpencodeExecutor extends EventEmitter {
     responseMode?: TaskInfo['responseMode'];
     model?: string;
     executeFirst?: boolean;
+    readOnly?: boolean;
+    quotedContext?: string;
+    approvalReason?: string;
   }): Promise<TaskInfo> {
     const {
       command,
@@ -83,6 +106,9 @@ export class OpencodeExecutor extends EventEmitter {
       responseMode,
       model,
       executeFirst,
+      readOnly,
+      quotedContext,
+      approvalReason,
     } = params;
 
     const taskId = this.generateTaskId();
@@ -92,11 +118,15 @@ export class OpencodeExecutor extends EventEmitter {
       responseMode,
       model,
       executeFirst,
+      readOnly,
       command,
       userId,
       chatId,
       messageId,
       opencodeSessionId,
+      files: files && files.length > 0 ? [...files] : undefined,
+      workingDir,
+      quotedContext,
       createdAt: new Date(),
       output: [],
     };
@@ -104,17 +134,62 @@ export class OpencodeExecutor extends EventEmitter {
     this.taskStore.set(taskId, taskInfo);
     this.pruneTaskStore();
 
-    if (this.runningCount >= this.maxConcurrent) {
-      logger.info(`Task ${taskId} queued (concurrent limit reached)`);
-      this.taskQueue.push({ taskInfo, workingDir, files, opencodeSessionId, model });
-      this.emit('task:queued', { task: taskInfo });
+    const queued: QueuedTask = { taskInfo, workingDir, files, opencodeSessionId, model };
+    if (approvalReason) {
+      logger.info(`Task ${taskId} held for approval (matched "${approvalReason}")`);
+      taskInfo.approval = { reason: approvalReason, state: 'waiting' };
+      this.heldTasks.set(taskId, queued);
+      this.emit('task:approval', { task: taskInfo });
       return taskInfo;
     }
 
-    await this.startTask(taskInfo, workingDir, files, opencodeSessionId, model);
+    await this.dispatch(queued);
+    return taskInfo;
+  }
+
+  /** Releases a task held for approval into the normal queue. */
+  async approveTask(taskId: string, approverId: string): Promise<TaskInfo | undefined> {
+    const held = this.heldTasks.get(taskId);
+    if (!held) {
+      return undefined;
+    }
+
+    this.heldTasks.delete(taskId);
+    const { taskInfo } = held;
+    logger.info(`Task ${taskId} approved by ${approverId}`);
+    taskInfo.approval = { ...taskInfo.approval!, state: 'approved', decidedBy: approverId, decidedAt: new Date() };
+    await this.dispatch(held);
     return taskInfo;
   }
 
+  rejectTask(taskId: string, approverId: string): TaskInfo | undefined {
+    const held = this.heldTasks.get(taskId);
+    if (!held) {
+      return undefined;
+    }
+
+    this.heldTasks.delete(taskId);
+    const { taskInfo } = held;
+    logger.info(`Task ${taskId} rejected by ${approverId}`);
+    taskInfo.approval = { ...taskInfo.approval!, state: 'rejected', decidedBy: approverId, decidedAt: new Date() };
+    taskInfo.status = 'cancelled';
+    taskInfo.error = 'Cancelled: approval_rejected';
+    taskInfo.completedAt = new Date();
+    this.emit('task:cancelled', { task: taskInfo, reason: 'approval_rejected' });
+    return taskInfo;
+  }
+
+  private async dispatch(queued: QueuedTask): Promise<void> {
+    if (this.runningCount >= this.maxConcurrent) {
+      logger.info(`Task ${queued.taskInfo.id} queued (concurrent limit reached)`);
+      this.taskQueue.push(queued);
+      this.emit('task:queued', { task: queued.taskInfo });
+      return;
+    }
+
+    await this.startTask(queued.taskInfo, queued.workingDir, queued.files, queued.opencodeSessionId, queued.model);
+  }
+
   async classifyIntent(command: string, modelOverride?: string): Promise<IntentClassificationResult> {
     const cwd = config.opencode.workingDir || process.cwd();
     const opencodePath = config.opencode.path;
@@ -146,7 +221,8 @@ export class OpencodeExecutor extends EventEmitter {
       try {
         child = spawn(opencodePath, args, {
           cwd,
-          env: process.env,
+          // The classifier only has to answer in text, and the text may come from a viewer.
+          env: this.buildOpencodeEnv(true),
           stdio: ['ignore', 'pipe', 'pipe'],
         });
       } catch (error) {
@@ -240,19 +316,51 @@ export class OpencodeExecutor extends EventEmitter {
     modelOverride?: string,
   ): Promise<void> {
     const { id, command } = taskInfo;
-    const cwd = workingDir || config.opencode.workingDir || process.cwd();
+    let cwd = workingDir || config.opencode.workingDir || process.cwd();
     const opencodePath = config.opencode.path;
     const shouldInheritModelFromSession = Boolean(opencodeSessionId) && !modelOverride && !taskInfo.model;
     const model = shouldInheritModelFromSession
       ? undefined
       : (modelOverride || taskInfo.model || await this.resolveModel());
     taskInfo.model = model;
-    const finalPrompt = this.buildTaskPrompt(command, taskInfo.executeFirst !== false);
-    const args = this.buildOpencodeArgs(finalPrompt, model, files, opencodeSessionId);
+    const finalPrompt = this.buildTaskPrompt(command, taskInfo.executeFirst !== false, taskInfo.quotedContext);
+    const args = this.buildOpencodeArgs(
+      finalPrompt,
+      model,
+      files,
+      opencodeSessionId,
+      taskInfo.readOnly ? config.opencode.readOnlyAgent : undefined,
+    );
 
     taskInfo.status = 'running';
     taskInfo.startedAt = new Date();
     this.runningCount++;
+
+    if (config.opencode.worktreeIsolation) {
+      try {
+        const worktree = await this.worktrees.create(id, cwd);
+        if (worktree) {
+          taskInfo.worktree = worktree;
+          cwd = join(worktree.path, worktree.subdir);
+        }
+      } catch (error) {
+        logger.warn(`Failed to create worktree for task ${id}; running in ${cwd}`, error);
+      }
+    }
+
+    let changeBaseline: ChangeBaseline | undefined;
+    // Read-only and chat runs cannot change anything worth summarizing.
+    const tracksChanges = config.opencode.changeSummaryEnabled
+      && !taskInfo.readOnly
+      && taskInfo.responseMode !== 'silent';
+    if (!taskInfo.worktree && tracksChanges) {
+      try {
+        changeBaseline = await this.changeTracker.begin(cwd);
+      } catch (error) {
+        logger.warn(`Failed to snapshot ${cwd} before task ${id}; no change summary`, error);
+      }
+    }
+
     this.emit('task:started', { task: taskInfo });
 
     logger.info(`Starting task ${id}: ${opencodePath} ${args.join(' ')}`);
@@ -261,7 +369,7 @@ export class OpencodeExecutor extends EventEmitter {
     try {
       child = spawn(opencodePath, args, {
         cwd,
-        env: process.env,
+        env: this.buildOpencodeEnv(taskInfo.readOnly === true),
         stdio: ['ignore', 'pipe', 'pipe'],
       });
     } catch (error) {
@@ -273,6 +381,9 @@ export class OpencodeExecutor extends EventEmitter {
         ? taskInfo.completedAt.getTime() - taskInfo.createdAt.getTime()
         : 0;
       this.runningCount = Math.max(0, this.runningCount - 1);
+      if (taskInfo.worktree) {
+        await this.sealWorktree(taskInfo, taskInfo.worktree);
+      }
       this.emit('task:error', { task: taskInfo, error: taskError });
       return;
     }
@@ -292,9 +403,20 @@ export class OpencodeExecutor extends EventEmitter {
       finalized: false,
       stdoutBuffer: '',
       lastProgressSignature: '',
+      changeBaseline,
+      transcript: this.transcripts.open(id),
     };
 
     this.runningTasks.set(id, runningTask);
+    if (changeBaseline) {
+      // Snapshots cover the whole working tree, so tasks sharing a repository see each other's edits.
+      for (const other of this.runningTasks.values()) {
+        if (other !== runningTask && other.changeBaseline?.repoRoot === changeBaseline.repoRoot) {
+          other.changesMayOverlap = true;
+          runningTask.changesMayOverlap = true;
+        }
+      }
+    }
     this.markTaskActivity(runningTask);
 
     child.stdout?.on('data', (data: Buffer | string) => {
@@ -339,10 +461,33 @@ export class OpencodeExecutor extends EventEmitter {
     });
   }
 
-  cancelTask(taskId: string, reason = 'user_request'): void {
+  cancelTask(taskId: string, reason = 'user_request'): TaskInfo | undefined {
+    const held = this.heldTasks.get(taskId);
+    if (held) {
+      this.heldTasks.delete(taskId);
+      logger.info(`Cancelling task ${taskId} awaiting approval: ${reason}`);
+      held.taskInfo.status = 'cancelled';
+      held.taskInfo.error = `Cancelled: ${reason}`;
+      held.taskInfo.completedAt = new Date();
+      this.emit('task:cancelled', { task: held.taskInfo, reason });
+      return held.taskInfo;
+    }
+
+    const queuedIndex = this.taskQueue.findIndex(item => item.taskInfo.id === taskId);
+    if (queuedIndex >= 0) {
+      const [queued] = this.taskQueue.splice(queuedIndex, 1);
+      const taskInfo = queued!.taskInfo;
+      logger.info(`Cancelling queued task ${taskId}: ${reason}`);
+      taskInfo.status = 'cancelled';
+      taskInfo.error = `Cancelled: ${reason}`;
+      taskInfo.completedAt = new Date();
+      this.emit('task:cancelled', { task: taskInfo, reason });
+      return taskInfo;
+    }
+
     const runningTask = this.runningTasks.get(taskId);
-    if (!runningTask) {
-      return;
+    if (!runningTask || runningTask.info.status === 'cancelled') {
+      return undefined;
     }
 
     logger.info(`Cancelling task ${taskId}: ${reason}`);
@@ -360,6 +505,8 @@ export class OpencodeExecutor extends EventEmitter {
     } catch (error) {
       logger.error(`Failed to kill task ${taskId}:`, error);
     }
+
+    return runningTask.info;
   }
 
   private finalizeTask(
@@ -386,23 +533,103 @@ export class OpencodeExecutor extends EventEmitter {
       taskInfo.exitCode = params.code;
     }
 
-    if (params.status === 'completed') {
-      taskInfo.status = 'completed';
-      this.emit('task:completed', {
-        task: taskInfo,
-        result: this.buildResult(taskInfo),
-      });
-    } else if (params.status === 'failed') {
-      taskInfo.status = 'failed';
-      const error = params.error || new Error('Unknown task error');
+    taskInfo.status = params.status;
+    const error = params.status === 'failed' ? params.error || new Error('Unknown task error') : undefined;
+    if (error) {
       taskInfo.error = error.message;
-      this.emit('task:error', { task: taskInfo, error });
-    } else {
-      taskInfo.status = 'cancelled';
     }
 
     this.cleanupTask(taskInfo.id);
     this.processQueue();
+
+    // Completion listeners should see what changed on disk, so collect it before emitting.
+    const collected = taskInfo.worktree?.state === 'active'
+      ? this.sealWorktree(taskInfo, taskInfo.worktree)
+      : runningTask.changeBaseline
+        ? this.collectChanges(taskInfo, runningTask.changeBaseline, runningTask.changesMayOverlap === true)
+        : Promise.resolve();
+    void Promise.all([collected, runningTask.transcript.close()]).then(() => {
+      if (params.status === 'completed') {
+        this.emit('task:completed', {
+          task: taskInfo,
+          result: this.buildResult(taskInfo),
+        });
+      } else if (error) {
+        this.emit('task:error', { task: taskInfo, error });
+      }
+    });
+  }
+
+  private async sealWorktree(taskInfo: TaskInfo, worktree: TaskWorktree): Promise<void> {
+    try {
+      const head = await this.worktrees.seal(taskInfo.id, worktree);
+      if (worktree.state === 'pending') {
+        taskInfo.changes = await this.changeTracker.describe(worktree.repoRoot, worktree.baseCommit, head);
+      }
+    } catch (error) {
+      logger.error(`Failed to seal worktree ${worktree.path} for task ${taskInfo.id}`, error);
+      return;
+    }
+    this.emit('task:worktree', { task: taskInfo });
+  }
+
+  /**
+   * Settles worktrees of tasks that were still running when the bridge last
+   * stopped, so their directories and empty branches do not pile up. Partial
+   * work is committed and left on the branch for `!branch`.
+   */
+  async recoverWorktrees(): Promise<number> {
+    const leftovers = Array.from(this.taskStore.values())
+      .filter(task => task.worktree?.state === 'active' && !this.runningTasks.has(task.id));
+
+    for (const task of leftovers) {
+      const worktree = task.worktree as TaskWorktree;
+      try {
+        const head = await this.worktrees.recover(task.id, worktree);
+        if (worktree.state === 'pending') {
+          task.changes = await this.changeTracker.describe(worktree.repoRoot, worktree.baseCommit, head);
+        }
+        logger.info(`Recovered worktree of interrupted task ${task.id} (${worktree.state})`);
+      } catch (error) {
+        logger.error(`Failed to recover worktree ${worktree.path} for task ${task.id}`, error);
+      }
+    }
+    return leftovers.length;
+  }
+
+  private async collectChanges(taskInfo: TaskInfo, baseline: ChangeBaseline, mayOverlap: boolean): Promise<void> {
+    try {
+      const changes = await this.changeTracker.finish(baseline);
+      if (changes.files.length > 0) {
+        taskInfo.changes = mayOverlap ? { ...changes, mayIncludeOtherTasks: true } : changes;
+      }
+    } catch (error) {
+      logger.warn(`Failed to collect changed files for task ${taskInfo.id}`, error);
+    }
+  }
+
+  async renderPatch(taskId: string): Promise<string> {
+    const changes = this.taskStore.get(taskId)?.changes;
+    if (!changes) {
+      throw new Error(`Task ${taskId} has no recorded changes`);
+    }
+    return await this.changeTracker.renderPatch(changes);
+  }
+
+  async resolveWorktree(taskId: string, action: WorktreeAction): Promise<TaskWorktree> {
+    const worktree = this.taskStore.get(taskId)?.worktree;
+    if (!worktree || worktree.state !== 'pending') {
+      throw new Error(`Task ${taskId} has no pending worktree branch`);
+    }
+
+    if (action === 'merge') {
+      await this.worktrees.merge(worktree);
+    } else if (action === 'keep') {
+      this.worktrees.keep(worktree);
+    } else {
+      await this.worktrees.discard(worktree);
+    }
+    return worktree;
   }
 
   private handleTaskStdout(runningTask: RunningTask, data: Buffer | string): void {
@@ -445,6 +672,7 @@ export class OpencodeExecutor extends EventEmitter {
       return;
     }
 
+    runningTask.transcript.writeEvent(trimmed);
     this.handleStructuredProgressEvent(runningTask, parsed);
 
     const sessionId = this.extractSessionId(parsed);
@@ -467,6 +695,7 @@ export class OpencodeExecutor extends EventEmitter {
 
     runningTask.output.push(output);
     runningTask.info.output.push(output);
+    runningTask.transcript.writeOutput(output);
     runningTask.info.progress = output.length > 500 ? `${output.substring(0, 500)}...` : output;
   }
 
@@ -833,11 +1062,15 @@ export class OpencodeExecutor extends EventEmitter {
     model?: string,
     files?: string[],
     opencodeSessionId?: string,
+    agent?: string,
   ): string[] {
     const args = ['run', prompt, '--format', 'json'];
     if (model) {
       args.push('--model', model);
     }
+    if (agent) {
+      args.push('--agent', agent);
+    }
     if (opencodeSessionId) {
       args.push('--session', opencodeSessionId);
     }
@@ -849,7 +1082,11 @@ export class OpencodeExecutor extends EventEmitter {
     return args;
   }
 
-  private buildTaskPrompt(userPrompt: string, executeFirst: boolean): string {
+  private buildOpencodeEnv(readOnly: boolean): NodeJS.ProcessEnv {
+    return readOnly ? { ...process.env, OPENCODE_PERMISSION: READ_ONLY_PERMISSION } : process.env;
+  }
+
+  private buildTaskPrompt(userPrompt: string, executeFirst: boolean, quotedContext?: string): string {
     const trimmed = userPrompt.trim();
     if (!trimmed) {
       return userPrompt;
@@ -868,6 +1105,10 @@ export class OpencodeExecutor extends EventEmitter {
       sections.push(this.DEFAULT_CONCISE_RESULT_PROMPT);
     }
 
+    if (quotedContext?.trim()) {
+      sections.push(`用户引用了以下消息（请求可能针对这段内容）：\n${quotedContext.trim()}`);
+    }
+
     if (sections.length === 0) {
       return trimmed;
     }
@@ -950,6 +1191,28 @@ export class OpencodeExecutor extends EventEmitter {
     }
   }
 
+  async resolveDefaultModel(): Promise<string | undefined> {
+    return await this.resolveModel();
+  }
+
+  /** Asks the binary once and caches the answer; a failed probe is retried on the next call. */
+  getOpencodeVersion(): Promise<string | undefined> {
+    if (!this.opencodeVersion) {
+      this.opencodeVersion = execFileAsync(config.opencode.path, ['--version'], {
+        env: process.env,
+        timeout: 10000,
+      }).then(
+        ({ stdout }) => stdout.trim().split(/\r?\n/)[0] || undefined,
+        (error: unknown) => {
+          logger.warn('Failed to read opencode version', error);
+          this.opencodeVersion = undefined;
+          return undefined;
+        },
+      );
+    }
+    return this.opencodeVersion;
+  }
+
   listModels(): string[] {
     try {
       const result = spawnSync(config.opencode.path, ['models'], {
@@ -1006,6 +1269,72 @@ export class OpencodeExecutor extends EventEmitter {
     return Array.from(this.taskStore.values());
   }
 
+  exportTasks(): TaskInfo[] {
+    return this.getAllTasks().map((task) => {
+      const output = task.output.join('');
+      const trimmedOutput = output.length > this.PERSISTED_OUTPUT_MAX_LENGTH
+        ? output.substring(output.length - this.PERSISTED_OUTPUT_MAX_LENGTH)
+        : output;
+      return {
+        ...task,
+        output: trimmedOutput ? [trimmedOutput] : [],
+      };
+    });
+  }
+
+  restoreTasks(raw: unknown): void {
+    if (!Array.isArray(raw)) {
+      return;
+    }
+
+    let restored = 0;
+    for (const item of raw) {
+      const task = this.reviveTask(item);
+      if (!task || this.taskStore.has(task.id)) {
+        continue;
+      }
+
+      if (task.status === 'running' || task.status === 'pending') {
+        task.status = 'failed';
+        task.error = 'Interrupted by bridge restart';
+        task.completedAt = task.completedAt || new Date();
+      }
+
+      this.taskStore.set(task.id, task);
+      restored += 1;
+    }
+
+    this.pruneTaskStore();
+    logger.info(`Restored ${restored} task(s) from persisted state`);
+  }
+
+  private reviveTask(raw: unknown): TaskInfo | undefined {
+    if (!raw || typeof raw !== 'object') {
+      return undefined;
+    }
+
+    const record = raw as Record<string, unknown>;
+    if (typeof record.id !== 'string' || typeof record.command !== 'string' || typeof record.chatId !== 'string') {
+      return undefined;
+    }
+
+    const task = record as unknown as TaskInfo;
+    return {
+      ...task,
+      output: Array.isArray(record.output) ? record.output.filter(item => typeof item === 'string') : [],
+      createdAt: reviveDate(record.createdAt) || new Date(),
+      startedAt: reviveDate(record.startedAt),
+      completedAt: reviveDate(record.completedAt),
+      approval: task.approval
+        ? { ...task.approval, decidedAt: reviveDate(task.approval.decidedAt) }
+        : undefined,
+    };
+  }
+
+  getTranscripts(): TranscriptStore {
+    return this.transcripts;
+  }
+
   getQueueLength(): number {
     return this.taskQueue.length;
   }
@@ -1014,6 +1343,10 @@ export class OpencodeExecutor extends EventEmitter {
     return this.runningCount;
   }
 
+  getAwaitingApprovalCount(): number {
+    return this.heldTasks.size;
+  }
+
   cleanup(): void {
     logger.info('Cleaning up executor...');
 
@@ -1028,10 +1361,12 @@ export class OpencodeExecutor extends EventEmitter {
       if (runningTask.timeoutHandle) {
         clearTimeout(runningTask.timeoutHandle);
       }
+      void runningTask.transcript.close();
     }
 
     this.runningTasks.clear();
     this.taskQueue = [];
+    this.heldTasks.clear();
     this.runningCount = 0;
 
     logger.info('Executor cleaned up');
@@ -0,0 +1,102 @@
+import { spawn, type ChildProcess } from 'child_process';
+import { config } from '../config.js';
+import { logger } from '../utils/logger.js';
+
+const INPUT_PLACEHOLDER = '{input}';
+
+/**
+ * Runs a local speech-to-text command (for example a whisper.cpp binary) on a
+ * downloaded voice message and returns the transcript it prints on stdout.
+ */
+export class SpeechTranscriber {
+  private readonly path: string;
+  private readonly args: string[];
+  private readonly timeout: number;
+
+  constructor(options: { path?: string; args: string[]; timeout: number } = config.speech) {
+    this.path = options.path || '';
+    this.args = options.args;
+    this.timeout = Math.max(1000, options.timeout);
+  }
+
+  isEnabled(): boolean {
+    return this.path.length > 0;
+  }
+
+  async transcribe(audioPath: string): Promise<string> {
+    if (!this.isEnabled()) {
+      throw new Error('Speech-to-text is not configured (STT_PATH)');
+    }
+
+    const args = this.args.some(arg => arg.includes(INPUT_PLACEHOLDER))
+      ? this.args.map(arg => arg.split(INPUT_PLACEHOLDER).join(audioPath))
+      : [...this.args, audioPath];
+
+    logger.info(`Transcribing voice message with ${this.path}`);
+
+    const stdout = await new Promise<string>((resolve, reject) => {
+      let output = '';
+      let stderr = '';
+      let settled = false;
+
+      let child: ChildProcess;
+      try {
+        child = spawn(this.path, args, {
+          env: process.env,
+          stdio: ['ignore', 'pipe', 'pipe'],
+        });
+      } catch (error) {
+        reject(error instanceof Error ? error : new Error(String(error)));
+        return;
+      }
+
+      const timeoutHandle = setTimeout(() => {
+        settled = true;
+        child.kill('SIGKILL');
+        reject(new Error(`Speech-to-text timed out after ${this.timeout}ms`));
+      }, this.timeout);
+
+      child.stdout?.on('data', (data: Buffer | string) => {
+        output += typeof data === 'string' ? data : data.toString();
+      });
+
+      child.stderr?.on('data', (data: Buffer | string) => {
+        stderr += typeof data === 'string' ? data : data.toString();
+      });
+
+      child.on('error', (error: Error) => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        clearTimeout(timeoutHandle);
+        reject(error);
+      });
+
+      child.on('close', (code: number | null) => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        clearTimeout(timeoutHandle);
+        if (code !== 0) {
+          reject(new Error(`Speech-to-text exited with code ${code}: ${stderr.trim().substring(0, 300)}`));
+          return;
+        }
+        resolve(output);
+      });
+    });
+
+    return this.cleanTranscript(stdout);
+  }
+
+  private cleanTranscript(raw: string): string {
+    return raw
+      .split(/\r?\n/)
+      // whisper.cpp prefixes segments with "[00:00:00.000 --> 00:00:02.000]" unless run with -nt.
+      .map(line => line.replace(/^\s*\[[\d:.]+\s*-->\s*[\d:.]+\]\s*/, '').trim())
+      .filter(Boolean)
+      .join(' ')
+      .trim();
+  }
+}
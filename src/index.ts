@@ -1,26 +1,63 @@
+import { LRUCache } from 'lru-cache';
 import { FeishuBot } from './bot/feishu-bot.js';
 import { config } from './config.js';
 import { OpencodeExecutor } from './executor/opencode-executor.js';
+import { SpeechTranscriber } from './executor/speech-transcriber.js';
+import { ProjectRegistry } from './projects/project-registry.js';
 import { MessageHandler } from './relay/message-handler.js';
+import { AccessControl } from './security/access-control.js';
+import { TaskScheduler, type ScheduledJob } from './scheduler/task-scheduler.js';
+import { RiskPolicy } from './security/risk-policy.js';
+import { createStateStore, type StateStore } from './storage/state-store.js';
+import { TaskJournal, type InterruptedTaskEntry } from './storage/task-journal.js';
 import type {
+  ApprovalCommandRequest,
   BotResponse,
+  CancelCommandRequest,
+  CardActionValue,
+  ContinueCommandRequest,
+  FeishuCardActionEvent,
   FeishuMessageEvent,
   IntentHint,
   ModelCommandRequest,
   NotificationMode,
   NotifyCommandRequest,
+  OutputCommandRequest,
+  ProjectCommandRequest,
+  ResumeCommandRequest,
+  RetryCommandRequest,
+  ScheduleCommandRequest,
   TaskInfo,
   TaskResponseMode,
+  TasksCommandRequest,
+  WorktreeCommandRequest,
 } from './types.js';
+import { buildSystemStatusCard, buildTaskListCard, buildTaskProgressCard } from './utils/card-builder.js';
 import { logger } from './utils/logger.js';
+import { parsePostContent } from './utils/post-content.js';
 import { constants as fsConstants } from 'fs';
-import { access, mkdir, rm } from 'fs/promises';
+import { access, mkdir, open, readdir, rename, rm, writeFile } from 'fs/promises';
 import { basename, isAbsolute, join, resolve } from 'path';
 
+interface PersistedBridgeState {
+  opencodeSessions?: Record<string, string>;
+  sessionModels?: Record<string, string>;
+  lastKnownModels?: Record<string, string>;
+  notifyModes?: Record<string, string>;
+  projectDirs?: Record<string, string>;
+}
+
 export class OpenCodeFeishuBridge {
   private bot: FeishuBot;
   private executor: OpencodeExecutor;
   private handler: MessageHandler;
+  private accessControl: AccessControl;
+  private stateStore: StateStore;
+  private taskJournal: TaskJournal;
+  private transcriber: SpeechTranscriber;
+  private projects: ProjectRegistry;
+  private riskPolicy: RiskPolicy;
+  private scheduler: TaskScheduler;
   private readonly DEBUG_PROGRESS_INTERVAL = config.opencode.streamingInterval;
   private readonly NORMAL_PROGRESS_INTERVAL = Math.max(
     config.opencode.streamingInterval,
@@ -31,38 +68,88 @@ export class OpenCodeFeishuBridge {
   private readonly MAX_PENDING_FILES = 5;
   private readonly MAX_RESULT_IMAGES = 3;
   private readonly MAX_TEXT_CHUNK_LENGTH = 2800;
+  private readonly MAX_LIVE_CARD_TEXT_LENGTH = 2400;
+  private readonly MAX_PROGRESS_LOG_LINES = 24;
+  private readonly MAX_QUOTED_CONTEXT_LENGTH = 4000;
+  private readonly MAX_LISTED_RECENT_TASKS = 10;
+  private readonly TRANSCRIPT_PRUNE_INTERVAL = 60 * 60 * 1000;
   private pendingProgress = new Map<string, string[]>();
+  private progressLog = new Map<string, string[]>();
+  private liveProgressCards = new Map<string, string>();
+  private resultMessageTasks = new LRUCache<string, string>({ max: 2000 });
+  private approvalCards = new Map<string, string>();
   private pendingFilesBySession = new Map<string, string[]>();
   private taskAttachedFiles = new Map<string, string[]>();
+  private taskFileExpiry = new Map<string, NodeJS.Timeout>();
   private taskResponseMode = new Map<string, TaskResponseMode>();
   private sessionNotifyMode = new Map<string, NotificationMode>();
   private sessionModelByBridgeSession = new Map<string, string>();
   private lastKnownModelByBridgeSession = new Map<string, string>();
   private opencodeSessionByBridgeSession = new Map<string, string>();
+  private projectDirByBridgeSession = new Map<string, string>();
   private taskBridgeSession = new Map<string, string>();
   private lastUpdateTime = new Map<string, number>();
+  private interruptedOnStartup: InterruptedTaskEntry[] = [];
+  private sessionSweepTimer: NodeJS.Timeout | null = null;
+  private transcriptPruneTimer: NodeJS.Timeout | null = null;
   private isStopping = false;
 
   constructor() {
     this.bot = new FeishuBot(config.feishu);
     this.executor = new OpencodeExecutor();
-    this.handler = new MessageHandler();
+    this.accessControl = new AccessControl();
+    this.handler = new MessageHandler(this.accessControl);
+    this.stateStore = createStateStore();
+    this.taskJournal = new TaskJournal(this.stateStore, config.storage.interruptedTaskTtl);
+    this.transcriber = new SpeechTranscriber();
+    this.projects = new ProjectRegistry();
+    this.riskPolicy = new RiskPolicy();
+    this.scheduler = new TaskScheduler(this.stateStore);
   }
 
   async start(): Promise<void> {
     logger.info('Starting OpenCode Feishu Bridge...');
 
+    await this.projects.load();
+    await this.restoreState();
+    if (await this.executor.recoverWorktrees() > 0) {
+      this.stateStore.markDirty();
+    }
+    // Warm the cache so `!status` does not wait on the first probe.
+    void this.executor.getOpencodeVersion();
+
     this.bot.on('message', (event: FeishuMessageEvent) => {
       this.handleIncomingMessage(event).catch((error: unknown) => {
         logger.error('Unhandled message processing error:', error);
       });
     });
+    this.bot.on('cardAction', (event: FeishuCardActionEvent) => {
+      this.handleCardAction(event).catch((error: unknown) => {
+        logger.error('Unhandled card action processing error:', error);
+      });
+    });
 
     this.setupEventListeners();
     await this.bot.start();
+    if (config.scheduler.enabled) {
+      this.scheduler.start();
+    }
+
+    if (!this.accessControl.isRestricted()) {
+      logger.warn('ALLOWED_USERS/ALLOWED_CHATS not set; every sender can run tasks on this host');
+    }
+
+    await this.notifyInterruptedTasks(this.interruptedOnStartup);
+    this.interruptedOnStartup = [];
+    this.startSessionSweeper();
+    await this.startTranscriptPruner();
 
     logger.info(`Bridge started successfully (v${config.version})`);
-    logger.info('Mode: WebSocket long connection (no webhook needed)');
+    if (this.bot.getConnectionMode() === 'webhook') {
+      logger.info(`Mode: webhook (POST /webhook on port ${config.feishu.webhookPort || 3000})`);
+    } else {
+      logger.info('Mode: WebSocket long connection (no webhook needed)');
+    }
     logger.info('Waiting for Feishu messages...');
   }
 
@@ -79,15 +166,57 @@ export class OpenCodeFeishuBridge {
       return;
     }
 
+    const access = this.accessControl.authorize(event);
+    if (!access.allowed) {
+      await this.notifyAccessDenied(event);
+      return;
+    }
+
     const senderId = this.extractSenderId(event);
     const sessionId = this.findSessionId(senderId, chatId);
+    // Images of a captioned post belong to the task that post starts, never to a later one.
+    let captionImages: string[] = [];
 
     try {
       if (message?.message_type === 'file') {
+        if (!this.accessControl.can(event, 'run_task')) {
+          if (!this.isAddressedToBot(event)) {
+            return;
+          }
+          await this.bot.sendMessage(chatId, '🚫 当前角色无权上传任务文件（需要 `operator` 及以上权限）。', 'text');
+          return;
+        }
         await this.handleIncomingFileMessage(event, sessionId);
         return;
       }
 
+      if (message?.message_type === 'audio') {
+        // Checked before the download so viewers cannot make the host run the transcriber.
+        if (this.isAddressedToBot(event) && !this.accessControl.can(event, 'run_task')) {
+          await this.bot.sendMessage(chatId, '🚫 当前角色无权发送语音任务（需要 `operator` 及以上权限）。', 'text');
+          return;
+        }
+        await this.handleIncomingAudioMessage(event, sessionId);
+        return;
+      }
+
+      if (message?.message_type === 'image') {
+        // Image messages cannot @mention the bot, so in groups that require a mention they are ignored.
+        if (!this.isAddressedToBot(event)) {
+          return;
+        }
+        if (!this.accessControl.can(event, 'run_task')) {
+          await this.bot.sendMessage(chatId, '🚫 当前角色无权上传任务图片（需要 `operator` 及以上权限）。', 'text');
+          return;
+        }
+        await this.handleIncomingImageMessage(event, sessionId);
+        return;
+      }
+
+      if (message?.message_type === 'post' && this.accessControl.can(event, 'run_task')) {
+        captionImages = await this.stagePostImages(event, sessionId);
+      }
+
       const response = await this.handler.handleMessage(event);
       if (!response) {
         return;
@@ -99,6 +228,11 @@ export class OpenCodeFeishuBridge {
         await this.resetBridgeSession(sessionId);
       }
 
+      if (response.showStatus) {
+        await this.handleStatusCommand(chatId);
+        return;
+      }
+
       if (response.modelCommand) {
         await this.handleModelCommand(chatId, sessionId, response.modelCommand);
         return;
@@ -109,13 +243,74 @@ export class OpenCodeFeishuBridge {
         return;
       }
 
+      if (response.projectCommand) {
+        await this.handleProjectCommand(chatId, sessionId, response.projectCommand);
+        return;
+      }
+
+      if (response.cancelCommand) {
+        await this.handleCancelCommand(event, chatId, senderId, response.cancelCommand);
+        return;
+      }
+
+      if (response.resumeCommand) {
+        await this.handleResumeCommand(event, chatId, senderId, response.resumeCommand);
+        return;
+      }
+
+      if (response.worktreeCommand) {
+        await this.handleWorktreeCommand(event, chatId, senderId, response.worktreeCommand);
+        return;
+      }
+
+      if (response.approvalCommand) {
+        await this.handleApprovalCommand(chatId, senderId, response.approvalCommand);
+        return;
+      }
+
+      if (response.retryCommand) {
+        await this.handleRetryCommand(event, sessionId, response.retryCommand);
+        return;
+      }
+
+      if (response.scheduleCommand) {
+        await this.handleScheduleCommand(event, chatId, sessionId, response.scheduleCommand);
+        return;
+      }
+
+      if (response.continueCommand) {
+        await this.handleContinueCommand(event, sessionId, response.continueCommand);
+        return;
+      }
+
+      if (response.tasksCommand) {
+        await this.handleTasksCommand(chatId, response.tasksCommand);
+        return;
+      }
+
+      if (response.taskDetailCommand) {
+        await this.handleTaskDetailCommand(event, chatId, response.taskDetailCommand.taskId);
+        return;
+      }
+
+      if (response.patchCommand) {
+        await this.handlePatchCommand(event, chatId, response.patchCommand.taskId);
+        return;
+      }
+
+      if (response.outputCommand) {
+        await this.handleOutputCommand(event, chatId, response.outputCommand);
+        return;
+      }
+
       if (response.sendFilePath) {
-        await this.handleSendFileCommand(chatId, response.sendFilePath);
+        await this.handleSendFileCommand(chatId, sessionId, response.sendFilePath);
         return;
       }
 
       if (response.executeCommand) {
-        const filePaths = this.consumePendingFiles(sessionId);
+        const filePaths = [...this.consumePendingFiles(sessionId), ...captionImages];
+        captionImages = [];
         let responseMode: TaskResponseMode = this.getSessionTaskMode(sessionId);
         const modelOverride = this.resolvePreferredModelForSession(sessionId);
 
@@ -127,37 +322,333 @@ export class OpenCodeFeishuBridge {
           responseMode = await this.resolveResponseMode(sessionId, hint, response.executeCommand, modelOverride);
         }
 
-        const opencodeSessionId = this.opencodeSessionByBridgeSession.get(sessionId);
-        const task = await this.executor.execute({
+        await this.submitTask({
           command: response.executeCommand,
           userId: senderId,
           chatId,
           messageId: message?.message_id || '',
+          sessionId,
           files: filePaths,
-          opencodeSessionId,
+          opencodeSessionId: this.opencodeSessionByBridgeSession.get(sessionId),
           responseMode,
           model: modelOverride,
           executeFirst: response.executeFirst,
+          readOnly: response.readOnly,
+          workingDir: this.resolveProjectDir(sessionId, chatId),
+          quotedContext: await this.resolveQuotedContext(message?.parent_id),
         });
-
-        this.taskBridgeSession.set(task.id, sessionId);
-        this.taskResponseMode.set(task.id, responseMode);
-        if (task.opencodeSessionId) {
-          this.opencodeSessionByBridgeSession.set(sessionId, task.opencodeSessionId);
-        }
-
-        if (filePaths.length > 0) {
-          this.taskAttachedFiles.set(task.id, filePaths);
-        }
-        this.handler.addTaskToSession(sessionId, task);
       }
     } catch (error) {
       logger.error('Error handling message:', error);
       await this.bot.sendMessage(chatId, '❌ 处理消息失败，请稍后重试。', 'text');
+    } finally {
+      // The post's text turned out not to be a task (a command, a denial, ...).
+      await Promise.all(captionImages.map(filePath => rm(filePath, { force: true })));
+      this.stateStore.markDirty();
+    }
+  }
+
+  /**
+   * Turns a card button click into the equivalent chat command and runs it
+   * through the normal message path, so access control and roles still apply.
+   */
+  private async handleCardAction(action: FeishuCardActionEvent): Promise<void> {
+    const value = action.value as Partial<CardActionValue>;
+    const taskId = typeof value.taskId === 'string' ? value.taskId : '';
+    const command = this.cardActionToCommand(value.action, taskId);
+    if (!command) {
+      logger.warn(`Ignoring card action ${String(value.action)} for task ${taskId || '-'}`);
+      return;
+    }
+
+    await this.handleIncomingMessage({
+      schema: '2.0',
+      header: {
+        event_id: action.eventId,
+        token: '',
+        create_time: String(Date.now()),
+        event_type: 'card.action.trigger',
+        tenant_key: '',
+        app_id: '',
+      },
+      event: {
+        sender: {
+          sender_id: action.operator,
+          sender_type: 'user',
+        },
+        message: {
+          message_id: action.messageId,
+          chat_id: action.chatId,
+          // A button click is addressed to the bot, so it must not hit the group @mention gate.
+          chat_type: 'p2p',
+          message_type: 'text',
+          content: JSON.stringify({ text: command }),
+        },
+      },
+    });
+  }
+
+  private cardActionToCommand(action: CardActionValue['action'] | undefined, taskId: string): string | undefined {
+    if (!taskId) {
+      return undefined;
+    }
+    if (action === 'cancel') {
+      return `!cancel ${taskId}`;
+    }
+    if (action === 'output') {
+      return `!output ${taskId}`;
+    }
+    if (action === 'continue') {
+      return `!continue ${taskId}`;
+    }
+    if (action === 'retry') {
+      return `!retry ${taskId}`;
+    }
+    if (action === 'approve' || action === 'reject') {
+      return `!${action} ${taskId}`;
+    }
+    if (action === 'patch') {
+      return `!patch ${taskId}`;
+    }
+    if (action === 'merge' || action === 'keep' || action === 'discard') {
+      return `!branch ${action} ${taskId}`;
+    }
+    return undefined;
+  }
+
+  private async submitTask(params: {
+    command: string;
+    userId: string;
+    chatId: string;
+    messageId: string;
+    sessionId: string;
+    files: string[];
+    opencodeSessionId?: string;
+    responseMode: TaskResponseMode;
+    model?: string;
+    executeFirst?: boolean;
+    readOnly?: boolean;
+    workingDir?: string;
+    quotedContext?: string;
+  }): Promise<TaskInfo> {
+    const { sessionId, files, responseMode } = params;
+    const task = await this.executor.execute({
+      command: params.command,
+      userId: params.userId,
+      chatId: params.chatId,
+      messageId: params.messageId,
+      workingDir: params.workingDir,
+      files,
+      opencodeSessionId: params.opencodeSessionId,
+      responseMode,
+      model: params.model,
+      executeFirst: params.executeFirst,
+      readOnly: params.readOnly,
+      quotedContext: params.quotedContext,
+      approvalReason: this.riskPolicy.match(params.command),
+    });
+
+    this.taskBridgeSession.set(task.id, sessionId);
+    this.taskResponseMode.set(task.id, responseMode);
+    if (task.opencodeSessionId) {
+      this.opencodeSessionByBridgeSession.set(sessionId, task.opencodeSessionId);
+    }
+
+    if (files.length > 0) {
+      this.taskAttachedFiles.set(task.id, files);
+    }
+    this.handler.addTaskToSession(sessionId, task);
+    return task;
+  }
+
+  /**
+   * Context for a quote-reply: the stored output when the parent is one of our
+   * task results, otherwise the parent message's own text.
+   */
+  private async resolveQuotedContext(parentId: string | undefined): Promise<string | undefined> {
+    if (!parentId) {
+      return undefined;
+    }
+
+    const taskId = this.resultMessageTasks.get(parentId);
+    const task = taskId ? this.executor.getTask(taskId) : undefined;
+    const taskOutput = task ? this.handler.formatFullOutput(task) : '';
+    if (task && taskOutput) {
+      return this.truncateQuotedContext(`机器人此前的任务结果（原始请求：${task.command}）：\n${taskOutput}`);
+    }
+
+    try {
+      const parent = await this.bot.getMessage(parentId);
+      const text = parent ? this.handler.extractMessageText(parent.messageType, parent.content) : '';
+      return text ? this.truncateQuotedContext(text) : undefined;
+    } catch (error) {
+      logger.warn(`Failed to fetch quoted message ${parentId}`, error);
+      return undefined;
+    }
+  }
+
+  private truncateQuotedContext(text: string): string {
+    if (text.length <= this.MAX_QUOTED_CONTEXT_LENGTH) {
+      return text;
+    }
+    return `${text.substring(0, this.MAX_QUOTED_CONTEXT_LENGTH)}\n...（引用内容过长，已截断）`;
+  }
+
+  private async restoreState(): Promise<void> {
+    await this.stateStore.load();
+
+    this.executor.restoreTasks(this.stateStore.get('tasks'));
+    this.handler.restoreSessions(this.stateStore.get('sessions'), taskId => this.executor.getTask(taskId));
+
+    const bridgeState = this.stateStore.get<PersistedBridgeState>('bridge') || {};
+    this.restoreStringMap(this.opencodeSessionByBridgeSession, bridgeState.opencodeSessions);
+    this.restoreStringMap(this.sessionModelByBridgeSession, bridgeState.sessionModels);
+    this.restoreStringMap(this.lastKnownModelByBridgeSession, bridgeState.lastKnownModels);
+    for (const [sessionId, dir] of Object.entries(bridgeState.projectDirs || {})) {
+      // Roots may have been narrowed since the binding was made.
+      if (typeof dir === 'string' && this.projects.isWithinRoots(dir)) {
+        this.projectDirByBridgeSession.set(sessionId, dir);
+      }
+    }
+    for (const [sessionId, mode] of Object.entries(bridgeState.notifyModes || {})) {
+      if (mode === 'quiet' || mode === 'normal' || mode === 'debug') {
+        this.sessionNotifyMode.set(sessionId, mode);
+      }
+    }
+
+    this.interruptedOnStartup = this.taskJournal.restore();
+    this.scheduler.restore();
+
+    this.stateStore.register('tasks', () => this.executor.exportTasks());
+    this.stateStore.register('sessions', () => this.handler.exportSessions());
+    this.stateStore.register('bridge', (): PersistedBridgeState => ({
+      opencodeSessions: Object.fromEntries(this.opencodeSessionByBridgeSession),
+      sessionModels: Object.fromEntries(this.sessionModelByBridgeSession),
+      lastKnownModels: Object.fromEntries(this.lastKnownModelByBridgeSession),
+      notifyModes: Object.fromEntries(this.sessionNotifyMode),
+      projectDirs: Object.fromEntries(this.projectDirByBridgeSession),
+    }));
+  }
+
+  private startSessionSweeper(): void {
+    if (config.session.timeout <= 0) {
+      logger.info('SESSION_TIMEOUT is 0; idle sessions never expire');
+      return;
+    }
+
+    const interval = Math.max(1000, Math.min(config.session.sweepInterval, config.session.timeout));
+    this.sessionSweepTimer = setInterval(() => {
+      this.sweepIdleSessions().catch((error: unknown) => {
+        logger.error('Idle session sweep failed:', error);
+      });
+    }, interval);
+    this.sessionSweepTimer.unref();
+  }
+
+  /** Enforces TRANSCRIPT_RETENTION at startup and then hourly, so a long-running bridge does not fill the disk. */
+  private async startTranscriptPruner(): Promise<void> {
+    const transcripts = this.executor.getTranscripts();
+    await transcripts.prune();
+    this.transcriptPruneTimer = setInterval(() => {
+      transcripts.prune().catch((error: unknown) => {
+        logger.error('Transcript pruning failed:', error);
+      });
+    }, this.TRANSCRIPT_PRUNE_INTERVAL);
+    this.transcriptPruneTimer.unref();
+  }
+
+  private async sweepIdleSessions(): Promise<void> {
+    const expired = this.handler.expireIdleSessions(new Date(Date.now() - config.session.timeout));
+    if (expired.length === 0) {
+      return;
+    }
+
+    const idleMinutes = Math.max(1, Math.round(config.session.timeout / 60000));
+    for (const session of expired) {
+      const hadContext = this.opencodeSessionByBridgeSession.has(session.id)
+        || this.pendingFilesBySession.has(session.id)
+        || session.taskHistory.length > 0;
+
+      await this.resetBridgeSession(session.id);
+      await this.removeSessionStagingDir(session.id);
+
+      if (!config.session.notifyOnExpiry || !hadContext) {
+        continue;
+      }
+      try {
+        await this.bot.sendMessage(
+          session.chatId,
+          `💤 会话已闲置超过 ${idleMinutes} 分钟，上下文已自动重置，下一条消息将开始新会话。`,
+          'text',
+        );
+      } catch (error) {
+        logger.warn(`Failed to notify chat ${session.chatId} about expired session`, error);
+      }
+    }
+
+    logger.info(`Expired ${expired.length} idle session(s)`);
+    this.stateStore.markDirty();
+  }
+
+  private async removeSessionStagingDir(sessionId: string): Promise<void> {
+    // Interrupted tasks keep their attachments in the session folder until they are resumed.
+    if (this.taskJournal.list().some(entry => entry.bridgeSessionId === sessionId)) {
+      return;
+    }
+
+    const sessionDir = join(this.uploadStagingDir, this.normalizePathSegment(sessionId));
+    // Attachments of running tasks, and of finished ones still inside the retry window,
+    // are deleted by their own task once it no longer needs them.
+    const taskFiles = new Set(Array.from(this.taskAttachedFiles.values()).flat());
+    try {
+      const entries = await readdir(sessionDir);
+      const kept = entries.filter(entry => taskFiles.has(join(sessionDir, entry)));
+      if (kept.length === 0) {
+        await rm(sessionDir, { recursive: true, force: true });
+        return;
+      }
+      await Promise.all(entries
+        .filter(entry => !kept.includes(entry))
+        .map(entry => rm(join(sessionDir, entry), { recursive: true, force: true })));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.warn(`Failed to remove staging folder ${sessionDir}`, error);
+      }
+    }
+  }
+
+  private restoreStringMap(target: Map<string, string>, raw: Record<string, string> | undefined): void {
+    for (const [key, value] of Object.entries(raw || {})) {
+      if (typeof value === 'string' && value) {
+        target.set(key, value);
+      }
+    }
+  }
+
+  private async notifyAccessDenied(event: FeishuMessageEvent): Promise<void> {
+    const chatId = event.event?.message?.chat_id || '';
+    if (!chatId || !this.isAddressedToBot(event)) {
+      return;
+    }
+
+    try {
+      await this.bot.sendMessage(
+        chatId,
+        '🔒 抱歉，你暂无权限使用此机器人。如需开通，请联系管理员将你加入白名单。',
+        'text',
+      );
+    } catch (error) {
+      logger.warn('Failed to send access denied notice', error);
     }
   }
 
   private setupEventListeners(): void {
+    this.scheduler.on('job:due', ({ job }: { job: ScheduledJob }) => {
+      this.runScheduledJob(job).catch((error: unknown) => {
+        logger.error(`Failed to run scheduled job ${job.id}:`, error);
+      });
+    });
+
     this.executor.on(
       'task:session',
       ({ task, opencodeSessionId }: { task: TaskInfo; opencodeSessionId: string }) => {
@@ -166,26 +657,52 @@ export class OpenCodeFeishuBridge {
           return;
         }
         this.opencodeSessionByBridgeSession.set(bridgeSessionId, opencodeSessionId);
+        this.stateStore.markDirty();
       },
     );
 
+    this.executor.on('task:approval', async ({ task }: { task: TaskInfo }) => {
+      this.handler.updateTask(task);
+      this.stateStore.markDirty();
+      // Posted even for silent tasks: nothing runs until someone decides.
+      const messageId = await this.postMessage(
+        task.chatId,
+        JSON.stringify(this.handler.buildApprovalCard(task)),
+        'interactive',
+        this.getTaskReplyTarget(task),
+      );
+      if (messageId) {
+        this.approvalCards.set(task.id, messageId);
+      }
+    });
+
     this.executor.on('task:queued', async ({ task }: { task: TaskInfo }) => {
       this.handler.updateTask(task);
+      this.stateStore.markDirty();
       if (this.getTaskResponseMode(task.id, task.responseMode) === 'silent') {
         return;
       }
-      await this.bot.sendMessage(task.chatId, `⏳ 任务排队中\n任务 ID：\`${task.id}\``, 'text');
+      await this.postMessage(
+        task.chatId,
+        `⏳ 任务排队中\n任务 ID：\`${task.id}\``,
+        'text',
+        this.getTaskReplyTarget(task),
+      );
     });
 
     this.executor.on('task:started', async ({ task }: { task: TaskInfo }) => {
       const mode = this.getTaskResponseMode(task.id, task.responseMode);
       this.handler.updateTask(task);
+      this.stateStore.markDirty();
       if (mode === 'silent') {
         return;
       }
       this.lastUpdateTime.set(task.id, Date.now());
+      if (this.shouldUseLiveProgressCard(mode) && await this.startLiveProgressCard(task)) {
+        return;
+      }
       const response = this.handler.handleTaskStart(task);
-      await this.sendBotResponse(task.chatId, response);
+      await this.sendBotResponse(task.chatId, response, this.getTaskReplyTarget(task));
     });
 
     this.executor.on(
@@ -201,22 +718,32 @@ export class OpenCodeFeishuBridge {
     );
 
     this.executor.on('task:completed', async ({ task }: { task: TaskInfo }) => {
+      if (this.isStopping) {
+        return;
+      }
       const mode = this.getTaskResponseMode(task.id, task.responseMode);
-      if (mode === 'normal' || mode === 'debug') {
+      // A live card is replaced by the result below, so a final progress patch would be wasted.
+      if ((mode === 'normal' || mode === 'debug') && !this.liveProgressCards.has(task.id)) {
         await this.flushProgress(task, true, mode);
       }
       this.cleanupProgressState(task.id);
-      await this.cleanupTaskFiles(task.id);
+      this.retainTaskFiles(task.id);
       this.taskResponseMode.delete(task.id);
       this.rememberTaskModel(task);
       this.taskBridgeSession.delete(task.id);
       this.handler.updateTask(task);
+      this.stateStore.markDirty();
       const response = this.handler.handleTaskComplete(task, { mode });
-      await this.sendBotResponse(task.chatId, response);
+      await this.deliverTaskResult(task, response);
 
       const images = this.extractImagesFromOutput(task.output.join(''));
       if (images.length > 0) {
-        await this.bot.sendMessage(task.chatId, `🖼️ 附带参考图片（${images.length} 张）`, 'text');
+        await this.postMessage(
+          task.chatId,
+          `🖼️ 附带参考图片（${images.length} 张）`,
+          'text',
+          this.getTaskReplyTarget(task),
+        );
       }
       for (const image of images) {
         try {
@@ -228,34 +755,59 @@ export class OpenCodeFeishuBridge {
     });
 
     this.executor.on('task:error', async ({ task, error }: { task: TaskInfo; error: Error }) => {
+      if (this.isStopping) {
+        return;
+      }
       const mode = this.getTaskResponseMode(task.id, task.responseMode);
-      if (mode === 'normal' || mode === 'debug') {
+      // A live card is replaced by the result below, so a final progress patch would be wasted.
+      if ((mode === 'normal' || mode === 'debug') && !this.liveProgressCards.has(task.id)) {
         await this.flushProgress(task, true, mode);
       }
       this.cleanupProgressState(task.id);
-      await this.cleanupTaskFiles(task.id);
+      this.retainTaskFiles(task.id);
       this.taskResponseMode.delete(task.id);
       this.rememberTaskModel(task);
       this.taskBridgeSession.delete(task.id);
       this.handler.updateTask(task);
+      this.stateStore.markDirty();
       const response = this.handler.handleTaskError(task, error, { mode });
-      await this.sendBotResponse(task.chatId, response);
+      await this.deliverTaskResult(task, response);
     });
 
     this.executor.on('task:cancelled', async ({ task, reason }: { task: TaskInfo; reason: string }) => {
+      if (this.isStopping) {
+        return;
+      }
       const mode = this.getTaskResponseMode(task.id, task.responseMode);
-      if (mode === 'normal' || mode === 'debug') {
+      // A live card is replaced by the result below, so a final progress patch would be wasted.
+      if ((mode === 'normal' || mode === 'debug') && !this.liveProgressCards.has(task.id)) {
         await this.flushProgress(task, true, mode);
       }
       this.cleanupProgressState(task.id);
-      await this.cleanupTaskFiles(task.id);
+      this.retainTaskFiles(task.id);
       this.taskResponseMode.delete(task.id);
       this.rememberTaskModel(task);
       this.taskBridgeSession.delete(task.id);
       this.handler.updateTask(task);
+      this.stateStore.markDirty();
       logger.info(`Task ${task.id} cancelled: ${reason}`);
+      await this.refreshApprovalCard(task);
       const response = this.handler.handleTaskUpdate(task, { mode, reason });
-      await this.sendBotResponse(task.chatId, response);
+      await this.deliverTaskResult(task, response);
+    });
+
+    this.executor.on('task:worktree', async ({ task }: { task: TaskInfo }) => {
+      this.handler.updateTask(task);
+      this.stateStore.markDirty();
+      if (this.isStopping) {
+        return;
+      }
+      const card = this.handler.buildWorktreeCard(task);
+      if (!card) {
+        logger.info(`Task ${task.id} left no changes; branch removed`);
+        return;
+      }
+      await this.postMessage(task.chatId, JSON.stringify(card), 'interactive', this.getTaskReplyTarget(task));
     });
 
     process.on('SIGINT', () => {
@@ -311,57 +863,148 @@ export class OpenCodeFeishuBridge {
       return;
     }
 
+    const liveCardId = this.liveProgressCards.get(task.id);
+    if (liveCardId) {
+      const log = [...(this.progressLog.get(task.id) || []), ...chunks].slice(-this.MAX_PROGRESS_LOG_LINES);
+      this.progressLog.set(task.id, log);
+      try {
+        await this.bot.updateMessage(liveCardId, JSON.stringify(this.handler.buildProgressCard(task, log.join('\n'))));
+        this.lastUpdateTime.set(task.id, Date.now());
+        return;
+      } catch (error) {
+        logger.warn(`Failed to update progress card for task ${task.id}, fallback to text`, error);
+        this.liveProgressCards.delete(task.id);
+      }
+    }
+
     const response = this.handler.handleTaskProgress(task, merged);
     if (!response.text && !response.card) {
       return;
     }
 
-    await this.sendBotResponse(task.chatId, response);
+    await this.sendBotResponse(task.chatId, response, this.getTaskReplyTarget(task));
     this.lastUpdateTime.set(task.id, Date.now());
   }
 
-  private async sendBotResponse(chatId: string, response: BotResponse): Promise<void> {
-    let cardSent = false;
+  private shouldUseLiveProgressCard(mode: TaskResponseMode): boolean {
+    return config.opencode.progressCardEnabled && (mode === 'normal' || mode === 'debug');
+  }
+
+  private async startLiveProgressCard(task: TaskInfo): Promise<boolean> {
+    try {
+      const card = this.handler.buildProgressCard(task, '');
+      const messageId = await this.postMessage(
+        task.chatId,
+        JSON.stringify(card),
+        'interactive',
+        this.getTaskReplyTarget(task),
+      );
+      if (!messageId) {
+        return false;
+      }
+      this.liveProgressCards.set(task.id, messageId);
+      return true;
+    } catch (error) {
+      logger.warn(`Failed to send progress card for task ${task.id}, fallback to text`, error);
+      return false;
+    }
+  }
+
+  private async deliverTaskResult(task: TaskInfo, response: BotResponse): Promise<void> {
+    const messageIds = await this.sendTaskResult(task, response);
+    for (const messageId of messageIds.filter(Boolean)) {
+      this.resultMessageTasks.set(messageId, task.id);
+    }
+  }
+
+  private async sendTaskResult(task: TaskInfo, response: BotResponse): Promise<string[]> {
+    const replyTo = this.getTaskReplyTarget(task);
+    const liveCardId = this.liveProgressCards.get(task.id);
+    this.liveProgressCards.delete(task.id);
+    if (!liveCardId) {
+      return this.sendBotResponse(task.chatId, response, replyTo);
+    }
+
+    const text = response.text?.trim() || '';
+    const inlineText = text.length <= this.MAX_LIVE_CARD_TEXT_LENGTH;
+    const card = response.card
+      || this.handler.buildTaskStatusCard(task, inlineText ? text : '📄 结果较长，已在下方消息中发送。');
+
+    try {
+      await this.bot.updateMessage(liveCardId, JSON.stringify(card));
+    } catch (error) {
+      logger.warn(`Failed to update progress card for task ${task.id} with result, sending separately`, error);
+      return this.sendBotResponse(task.chatId, response, replyTo);
+    }
+
+    if (!response.card && !inlineText) {
+      return [liveCardId, ...await this.sendTextInChunks(task.chatId, text, replyTo)];
+    }
+    if (response.card && response.followupText && response.followupText.trim().length > 0) {
+      return [liveCardId, ...await this.sendTextInChunks(task.chatId, response.followupText, replyTo)];
+    }
+    return [liveCardId];
+  }
+
+  private getTaskReplyTarget(task: TaskInfo): string | undefined {
+    if (config.feishu.replyMode === 'chat' || !task.messageId) {
+      return undefined;
+    }
+    return task.messageId;
+  }
+
+  /** Sends to the chat, or as a reply to `replyTo` when given; falls back to the chat if the reply fails. */
+  private async postMessage(chatId: string, content: string, msgType: string, replyTo?: string): Promise<string> {
+    if (replyTo) {
+      try {
+        return await this.bot.replyToMessage(replyTo, content, msgType, config.feishu.replyMode === 'thread');
+      } catch (error) {
+        logger.warn(`Failed to reply to message ${replyTo}, posting to chat instead`, error);
+      }
+    }
+    return this.bot.sendMessage(chatId, content, msgType);
+  }
+
+  private async sendBotResponse(chatId: string, response: BotResponse, replyTo?: string): Promise<string[]> {
+    let cardMessageId: string | undefined;
 
     if (response.card) {
       try {
-        await this.bot.sendMessage(chatId, JSON.stringify(response.card), 'interactive');
-        cardSent = true;
+        cardMessageId = await this.postMessage(chatId, JSON.stringify(response.card), 'interactive', replyTo);
       } catch (error) {
         logger.warn('Failed to send interactive card, fallback to text', error);
       }
     }
 
-    if (cardSent) {
+    if (cardMessageId !== undefined) {
       if (response.followupText && response.followupText.trim().length > 0) {
-        await this.sendTextInChunks(chatId, response.followupText);
+        return [cardMessageId, ...await this.sendTextInChunks(chatId, response.followupText, replyTo)];
       }
-      return;
+      return [cardMessageId];
     }
 
     if (response.text && response.text.trim().length > 0) {
-      await this.sendTextInChunks(chatId, response.text);
-      return;
+      return this.sendTextInChunks(chatId, response.text, replyTo);
     }
 
     if (response.followupText && response.followupText.trim().length > 0) {
-      await this.sendTextInChunks(chatId, response.followupText);
+      return this.sendTextInChunks(chatId, response.followupText, replyTo);
     }
+    return [];
   }
 
-  private async sendTextInChunks(chatId: string, text: string): Promise<void> {
+  private async sendTextInChunks(chatId: string, text: string, replyTo?: string): Promise<string[]> {
+    const messageIds: string[] = [];
     const chunks = this.splitTextIntoChunks(text, this.MAX_TEXT_CHUNK_LENGTH);
     for (let index = 0; index < chunks.length; index += 1) {
       const chunk = chunks[index];
       if (!chunk) {
         continue;
       }
-      if (chunks.length === 1) {
-        await this.bot.sendMessage(chatId, chunk, 'text');
-      } else {
-        await this.bot.sendMessage(chatId, `（${index + 1}/${chunks.length}）\n${chunk}`, 'text');
-      }
+      const content = chunks.length === 1 ? chunk : `（${index + 1}/${chunks.length}）\n${chunk}`;
+      messageIds.push(await this.postMessage(chatId, content, 'text', replyTo));
     }
+    return messageIds;
   }
 
   private splitTextIntoChunks(text: string, maxLength: number): string[] {
@@ -418,6 +1061,7 @@ export class OpenCodeFeishuBridge {
 
   private cleanupProgressState(taskId: string): void {
     this.pendingProgress.delete(taskId);
+    this.progressLog.delete(taskId);
     this.lastUpdateTime.delete(taskId);
   }
 
@@ -526,6 +1170,28 @@ export class OpenCodeFeishuBridge {
     return defaultMode;
   }
 
+  /** Tells the chat when `model` is not in `opencode models`; an empty list is not treated as a rejection. */
+  private async rejectUnknownModel(chatId: string, model: string): Promise<boolean> {
+    const models = this.executor.listModels();
+    if (models.length === 0 || models.includes(model)) {
+      return false;
+    }
+
+    const suggestions = models
+      .filter(item => item.toLowerCase().includes(model.toLowerCase()))
+      .slice(0, 5);
+    const suggestText = suggestions.length > 0
+      ? `\n你可能想用：\n${suggestions.map(item => `- ${item}`).join('\n')}`
+      : '';
+
+    await this.bot.sendMessage(
+      chatId,
+      `❌ 模型不存在：\`${model}\`\n请先用 \`/model list\` 选择可用模型。${suggestText}`,
+      'text',
+    );
+    return true;
+  }
+
   private async handleModelCommand(
     chatId: string,
     sessionId: string,
@@ -587,27 +1253,97 @@ export class OpenCodeFeishuBridge {
       return;
     }
 
-    const models = this.executor.listModels();
-    if (models.length > 0 && !models.includes(model)) {
-      const suggestions = models
-        .filter(item => item.toLowerCase().includes(model.toLowerCase()))
-        .slice(0, 5);
-      const suggestText = suggestions.length > 0
-        ? `\n你可能想用：\n${suggestions.map(item => `- ${item}`).join('\n')}`
-        : '';
+    if (await this.rejectUnknownModel(chatId, model)) {
+      return;
+    }
 
+    this.sessionModelByBridgeSession.set(sessionId, model);
+    this.lastKnownModelByBridgeSession.set(sessionId, model);
+    this.opencodeSessionByBridgeSession.delete(sessionId);
+    await this.bot.sendMessage(chatId, `✅ 已切换会话模型为：\`${model}\`\n已自动新开会话上下文。`, 'text');
+  }
+
+  /**
+   * Project directory for tasks in this session: a `/project bind` override
+   * first, then the chat's configured binding, then the global working dir.
+   */
+  private resolveProjectDir(sessionId: string, chatId: string): string {
+    return this.projectDirByBridgeSession.get(sessionId)
+      || this.projects.getChatBinding(chatId)
+      || config.opencode.workingDir;
+  }
+
+  private async handleProjectCommand(
+    chatId: string,
+    sessionId: string,
+    projectCommand: ProjectCommandRequest,
+  ): Promise<void> {
+    if (projectCommand.action === 'list') {
+      const projects = await this.projects.listProjects();
+      const roots = this.projects.getRoots().map(root => `- \`${root}\``).join('\n');
+      const lines = projects.map((project, index) => `${index + 1}. ${project}`);
       await this.bot.sendMessage(
         chatId,
-        `❌ 模型不存在：\`${model}\`\n请先用 \`/model list\` 选择可用模型。${suggestText}`,
+        projects.length > 0
+          ? `📁 可绑定的项目（${projects.length}）\n${lines.join('\n')}\n\n允许的根目录：\n${roots}`
+          : `📁 允许的根目录下没有子目录。\n允许的根目录：\n${roots}`,
         'text',
       );
       return;
     }
 
-    this.sessionModelByBridgeSession.set(sessionId, model);
-    this.lastKnownModelByBridgeSession.set(sessionId, model);
+    if (projectCommand.action === 'current') {
+      const override = this.projectDirByBridgeSession.get(sessionId);
+      const chatBinding = this.projects.getChatBinding(chatId);
+      const source = override ? '会话绑定' : chatBinding ? '群聊默认绑定' : '全局默认';
+      await this.bot.sendMessage(
+        chatId,
+        `📂 当前项目目录：\`${this.resolveProjectDir(sessionId, chatId)}\`（${source}）`,
+        'text',
+      );
+      return;
+    }
+
+    if (projectCommand.action === 'reset') {
+      this.projectDirByBridgeSession.delete(sessionId);
+      this.opencodeSessionByBridgeSession.delete(sessionId);
+      await this.bot.sendMessage(
+        chatId,
+        `♻️ 已恢复默认项目目录：\`${this.resolveProjectDir(sessionId, chatId)}\`\n已自动新开会话上下文。`,
+        'text',
+      );
+      return;
+    }
+
+    const path = projectCommand.path?.trim();
+    if (!path) {
+      await this.bot.sendMessage(chatId, '用法：`/project bind <路径>`，或 `/project list` 查看可绑定的项目。', 'text');
+      return;
+    }
+
+    const resolution = await this.projects.resolvePath(path);
+    if (!resolution.path) {
+      const reason = resolution.reason === 'outside_roots'
+        ? '不在允许的项目根目录内'
+        : resolution.reason === 'not_directory'
+          ? '不是目录'
+          : '不存在';
+      await this.bot.sendMessage(
+        chatId,
+        `❌ 无法绑定 \`${path}\`：${reason}。\n请用 \`/project list\` 查看可绑定的项目。`,
+        'text',
+      );
+      return;
+    }
+
+    this.projectDirByBridgeSession.set(sessionId, resolution.path);
+    // An opencode session belongs to the directory it was created in.
     this.opencodeSessionByBridgeSession.delete(sessionId);
-    await this.bot.sendMessage(chatId, `✅ 已切换会话模型为：\`${model}\`\n已自动新开会话上下文。`, 'text');
+    await this.bot.sendMessage(
+      chatId,
+      `✅ 已绑定项目目录：\`${resolution.path}\`\n已自动新开会话上下文。`,
+      'text',
+    );
   }
 
   private async handleNotifyCommand(
@@ -637,6 +1373,647 @@ export class OpenCodeFeishuBridge {
     await this.bot.sendMessage(chatId, `✅ 已切换推送模式为：\`${mode}\`\n${this.describeNotifyMode(mode)}`, 'text');
   }
 
+  private async handleCancelCommand(
+    event: FeishuMessageEvent,
+    chatId: string,
+    senderId: string,
+    cancelCommand: CancelCommandRequest,
+  ): Promise<void> {
+    const canManageOthers = this.accessControl.can(event, 'manage_tasks');
+
+    if (cancelCommand.target === 'all') {
+      const targets = this.executor.getAllTasks().filter(task => (
+        (task.status === 'running' || task.status === 'pending')
+        && task.chatId === chatId
+        && (canManageOthers || task.userId === senderId)
+      ));
+      if (targets.length === 0) {
+        await this.bot.sendMessage(chatId, '当前没有可取消的任务。', 'text');
+        return;
+      }
+
+      const cancelled = targets.filter(task => this.executor.cancelTask(task.id, 'user_request'));
+      await this.bot.sendMessage(chatId, `⏹️ 已取消 ${cancelled.length} 个任务。`, 'text');
+      return;
+    }
+
+    const taskId = cancelCommand.taskId || '';
+    const task = this.executor.getTask(taskId);
+    if (!task) {
+      await this.bot.sendMessage(chatId, `❌ 未找到任务：\`${taskId}\``, 'text');
+      return;
+    }
+
+    if (task.userId !== senderId && !canManageOthers) {
+      await this.bot.sendMessage(chatId, '🚫 只能取消自己发起的任务（管理他人任务需要 `admin` 权限）。', 'text');
+      return;
+    }
+
+    if (task.status !== 'running' && task.status !== 'pending') {
+      await this.bot.sendMessage(chatId, `任务 \`${task.id}\` 当前状态为 ${task.status}，无需取消。`, 'text');
+      return;
+    }
+
+    // The task:cancelled listener posts the confirmation with the partial output.
+    this.executor.cancelTask(task.id, 'user_request');
+  }
+
+  private async handleWorktreeCommand(
+    event: FeishuMessageEvent,
+    chatId: string,
+    senderId: string,
+    worktreeCommand: WorktreeCommandRequest,
+  ): Promise<void> {
+    const task = this.executor.getTask(worktreeCommand.taskId);
+    if (!task?.worktree) {
+      await this.bot.sendMessage(chatId, `❌ 未找到任务分支：\`${worktreeCommand.taskId}\``, 'text');
+      return;
+    }
+
+    if (task.userId !== senderId && !this.accessControl.can(event, 'manage_tasks')) {
+      await this.bot.sendMessage(chatId, '🚫 只能处理自己发起的任务分支（管理他人任务需要 `admin` 权限）。', 'text');
+      return;
+    }
+
+    if (task.worktree.state !== 'pending') {
+      await this.bot.sendMessage(chatId, `任务分支 \`${task.worktree.branch}\` 已处理（${task.worktree.state}）。`, 'text');
+      return;
+    }
+
+    const { branch, repoRoot } = task.worktree;
+    try {
+      await this.executor.resolveWorktree(task.id, worktreeCommand.action);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.warn(`Failed to ${worktreeCommand.action} worktree branch ${branch}`, error);
+      await this.bot.sendMessage(
+        chatId,
+        worktreeCommand.action === 'merge'
+          ? `❌ 合并 \`${branch}\` 失败（可能存在冲突或未提交的修改），分支已保留。\n${message.substring(0, 500)}`
+          : `❌ 处理分支 \`${branch}\` 失败：${message.substring(0, 500)}`,
+        'text',
+      );
+      return;
+    } finally {
+      this.stateStore.markDirty();
+    }
+
+    const text = worktreeCommand.action === 'merge'
+      ? `✅ 已将 \`${branch}\` 合并到 \`${repoRoot}\` 的当前分支。`
+      : worktreeCommand.action === 'keep'
+        ? `📌 已保留分支 \`${branch}\`，可在 \`${repoRoot}\` 中自行检出或合并。`
+        : `🗑️ 已丢弃分支 \`${branch}\`。`;
+    await this.bot.sendMessage(chatId, text, 'text');
+  }
+
+  private async handleStatusCommand(chatId: string): Promise<void> {
+    const card = buildSystemStatusCard({
+      version: config.version,
+      uptime: process.uptime() * 1000,
+      activeSessions: this.handler.getActiveSessionCount(),
+      runningTasks: this.executor.getRunningCount(),
+      queuedTasks: this.executor.getQueueLength(),
+      awaitingApproval: this.executor.getAwaitingApprovalCount(),
+      connectionMode: this.bot.getConnectionMode(),
+      memoryUsageMb: Math.round(process.memoryUsage().heapUsed / 1024 / 1024),
+      defaultModel: await this.executor.resolveDefaultModel(),
+      opencodeVersion: await this.executor.getOpencodeVersion(),
+      lastConnectAt: this.bot.getLastConnectTime(),
+    });
+    await this.bot.sendMessage(chatId, JSON.stringify(card), 'interactive');
+  }
+
+  private async handleScheduleCommand(
+    event: FeishuMessageEvent,
+    chatId: string,
+    sessionId: string,
+    scheduleCommand: ScheduleCommandRequest,
+  ): Promise<void> {
+    if (!config.scheduler.enabled) {
+      await this.bot.sendMessage(chatId, '⏰ 定时任务未启用（`SCHEDULER_ENABLED=false`）。', 'text');
+      return;
+    }
+
+    if (scheduleCommand.action === 'list') {
+      const jobs = this.scheduler.listForChat(chatId);
+      if (jobs.length === 0) {
+        await this.bot.sendMessage(chatId, '⏰ 本群暂无定时任务。用 `/schedule add <cron> <任务>` 创建。', 'text');
+        return;
+      }
+
+      const lines = jobs.map((job, index) => {
+        const nextRun = job.nextRunAt ? job.nextRunAt.toLocaleString('zh-CN', { hour12: false }) : '不再触发';
+        const lastTask = job.lastTaskId ? `，上次任务 \`${job.lastTaskId}\`` : '';
+        return `${index + 1}. \`${job.id}\` \`${job.cron}\`（下次：${nextRun}${lastTask}）\n   ${this.previewCommand(job.command)}`;
+      });
+      await this.bot.sendMessage(chatId, `⏰ 本群定时任务（${jobs.length}）\n${lines.join('\n')}`, 'text');
+      return;
+    }
+
+    if (scheduleCommand.action === 'rm') {
+      const job = scheduleCommand.jobId ? this.scheduler.get(scheduleCommand.jobId) : undefined;
+      if (!scheduleCommand.jobId) {
+        await this.bot.sendMessage(chatId, '用法：`/schedule rm <定时任务ID>`，可用 `/schedule list` 查看 ID。', 'text');
+        return;
+      }
+      if (!job || job.chatId !== chatId) {
+        await this.bot.sendMessage(chatId, `❌ 本群没有定时任务：\`${scheduleCommand.jobId}\``, 'text');
+        return;
+      }
+      if (job.creatorId !== this.extractSenderId(event) && !this.accessControl.can(event, 'manage_tasks')) {
+        await this.bot.sendMessage(chatId, '🚫 只能删除自己创建的定时任务（删除他人的需要 `admin` 权限）。', 'text');
+        return;
+      }
+
+      this.scheduler.remove(job.id);
+      const jobSessionId = this.getScheduledJobSessionId(job);
+      this.opencodeSessionByBridgeSession.delete(jobSessionId);
+      this.lastKnownModelByBridgeSession.delete(jobSessionId);
+      await this.bot.sendMessage(chatId, `🗑️ 已删除定时任务 \`${job.id}\`（\`${job.cron}\`）。`, 'text');
+      return;
+    }
+
+    if (!scheduleCommand.cron || !scheduleCommand.command) {
+      await this.bot.sendMessage(
+        chatId,
+        '用法：`/schedule add <cron> <任务>`，cron 为 5 个字段（分 时 日 月 周），例如：\n`/schedule add 0 9 * * 1-5 运行依赖安全审计并汇总结果`',
+        'text',
+      );
+      return;
+    }
+
+    if (this.scheduler.countForChat(chatId) >= config.scheduler.maxJobsPerChat) {
+      await this.bot.sendMessage(
+        chatId,
+        `❌ 本群定时任务已达上限（${config.scheduler.maxJobsPerChat} 个），请先用 \`/schedule rm\` 删除不需要的任务。`,
+        'text',
+      );
+      return;
+    }
+
+    let job: ScheduledJob;
+    try {
+      job = this.scheduler.add({
+        cron: scheduleCommand.cron,
+        command: scheduleCommand.command,
+        chatId,
+        creatorId: this.extractSenderId(event),
+        creatorIds: this.accessControl.collectSenderIds(event),
+        model: this.resolvePreferredModelForSession(sessionId),
+        notifyMode: this.getSessionTaskMode(sessionId),
+        workingDir: this.resolveProjectDir(sessionId, chatId),
+      });
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      await this.bot.sendMessage(chatId, `❌ 无效的 cron 表达式 \`${scheduleCommand.cron}\`：${reason}`, 'text');
+      return;
+    }
+
+    await this.bot.sendMessage(
+      chatId,
+      [
+        `✅ 已创建定时任务 \`${job.id}\``,
+        `cron：\`${job.cron}\`（服务器本地时间）`,
+        `下次执行：${job.nextRunAt?.toLocaleString('zh-CN', { hour12: false }) || '-'}`,
+        `模型：${job.model || '默认'}，推送模式：${job.notifyMode}`,
+        `任务：${this.previewCommand(job.command)}`,
+      ].join('\n'),
+      'text',
+    );
+  }
+
+  private previewCommand(command: string): string {
+    return command.length > 60 ? `${command.substring(0, 60)}...` : command;
+  }
+
+  /** Each job runs in its own bridge session so it never takes over the creator's conversation. */
+  private getScheduledJobSessionId(job: ScheduledJob): string {
+    return `schedule:${job.id}`;
+  }
+
+  private async runScheduledJob(job: ScheduledJob): Promise<void> {
+    logger.info(`Scheduled job ${job.id} (${job.cron}) triggered in chat ${job.chatId}`);
+    // Roles and allowlists may have changed since the job was created.
+    const creatorIds = job.creatorIds?.length ? job.creatorIds : [job.creatorId];
+    const permitted = (['run_task', 'schedule_task'] as const)
+      .every(permission => this.accessControl.canUser(creatorIds, job.chatId, permission));
+    if (!permitted) {
+      logger.warn(`Skipping scheduled job ${job.id}: creator ${job.creatorId} is no longer permitted to run it`);
+      await this.bot.sendMessage(
+        job.chatId,
+        `⏰ 定时任务 \`${job.id}\` 本次未执行：创建者已无执行定时任务的权限。可由 \`admin\` 用 \`/schedule rm ${job.id}\` 删除。`,
+        'text',
+      );
+      return;
+    }
+
+    // Roots may have been narrowed since the job was created; the global default is always allowed.
+    if (
+      job.workingDir
+      && job.workingDir !== config.opencode.workingDir
+      && !this.projects.isWithinRoots(job.workingDir)
+    ) {
+      logger.warn(`Skipping scheduled job ${job.id}: ${job.workingDir} is outside PROJECT_ROOTS`);
+      await this.bot.sendMessage(
+        job.chatId,
+        `⏰ 定时任务 \`${job.id}\` 本次未执行：项目目录 \`${job.workingDir}\` 已不在允许的项目根目录内，请删除后重新创建。`,
+        'text',
+      );
+      return;
+    }
+
+    await this.bot.sendMessage(
+      job.chatId,
+      `⏰ 定时任务 \`${job.id}\` 已触发：${this.previewCommand(job.command)}`,
+      'text',
+    );
+
+    const task = await this.submitTask({
+      command: job.command,
+      userId: job.creatorId,
+      chatId: job.chatId,
+      messageId: '',
+      sessionId: this.getScheduledJobSessionId(job),
+      files: [],
+      // Every run starts a fresh opencode session; runs are independent of each other.
+      opencodeSessionId: undefined,
+      responseMode: job.notifyMode,
+      model: job.model,
+      workingDir: job.workingDir,
+    });
+    this.scheduler.recordRun(job.id, task.id);
+  }
+
+  /**
+   * Continues the conversation of a specific task (the result card's button),
+   * not whatever session, model or project the clicker has switched to since.
+   */
+  private async handleContinueCommand(
+    event: FeishuMessageEvent,
+    sessionId: string,
+    continueCommand: ContinueCommandRequest,
+  ): Promise<void> {
+    const chatId = event.event?.message?.chat_id || '';
+    const senderId = this.extractSenderId(event);
+    const task = this.findVisibleTask(event, chatId, continueCommand.taskId);
+    if (!task) {
+      await this.bot.sendMessage(chatId, `❌ 任务 \`${continueCommand.taskId}\` 已不在记录中，无法继续该对话。`, 'text');
+      return;
+    }
+
+    if (task.userId !== senderId && !this.accessControl.can(event, 'manage_tasks')) {
+      await this.bot.sendMessage(chatId, '🚫 只能继续自己发起的任务对话（管理他人任务需要 `admin` 权限）。', 'text');
+      return;
+    }
+
+    if (!task.opencodeSessionId) {
+      await this.bot.sendMessage(chatId, `❌ 任务 \`${task.id}\` 没有可继续的 opencode 会话。`, 'text');
+      return;
+    }
+
+    await this.submitTask({
+      command: '继续',
+      userId: senderId,
+      chatId,
+      messageId: event.event?.message?.message_id || '',
+      sessionId,
+      files: [],
+      opencodeSessionId: task.opencodeSessionId,
+      responseMode: this.getSessionTaskMode(sessionId),
+      model: task.model,
+      executeFirst: task.executeFirst,
+      readOnly: task.readOnly,
+      workingDir: task.workingDir,
+    });
+  }
+
+  private async handleRetryCommand(
+    event: FeishuMessageEvent,
+    sessionId: string,
+    retryCommand: RetryCommandRequest,
+  ): Promise<void> {
+    const chatId = event.event?.message?.chat_id || '';
+    const senderId = this.extractSenderId(event);
+    const task = this.executor.getTask(retryCommand.taskId);
+    if (!task) {
+      await this.bot.sendMessage(chatId, `❌ 未找到任务：\`${retryCommand.taskId}\``, 'text');
+      return;
+    }
+
+    if (task.userId !== senderId && !this.accessControl.can(event, 'manage_tasks')) {
+      await this.bot.sendMessage(chatId, '🚫 只能重试自己发起的任务（管理他人任务需要 `admin` 权限）。', 'text');
+      return;
+    }
+
+    if (task.status === 'running' || task.status === 'pending') {
+      await this.bot.sendMessage(chatId, `任务 \`${task.id}\` 仍在进行中，无需重试。`, 'text');
+      return;
+    }
+
+    if (retryCommand.model && await this.rejectUnknownModel(chatId, retryCommand.model)) {
+      return;
+    }
+
+    const { files, missing } = await this.takeRetainedFiles(task);
+    const model = retryCommand.model || task.model;
+    const notes = [
+      retryCommand.model
+        ? `🔁 使用模型 \`${retryCommand.model}\` 重新执行任务 \`${task.id}\``
+        : `🔁 重新执行任务 \`${task.id}\``,
+      files.length > 0 ? `📎 附带原任务文件：${files.map(filePath => basename(filePath)).join(', ')}` : '',
+      missing > 0 ? `⚠️ ${missing} 个附件已超过保留时限，本次不附带。` : '',
+    ].filter(Boolean);
+    await this.bot.sendMessage(chatId, notes.join('\n'), 'text');
+
+    await this.submitTask({
+      command: task.command,
+      userId: senderId,
+      chatId,
+      messageId: event.event?.message?.message_id || '',
+      sessionId,
+      files,
+      // A rerun for comparison must not see the first model's answer in its context.
+      opencodeSessionId: retryCommand.model ? undefined : task.opencodeSessionId,
+      responseMode: this.getSessionTaskMode(sessionId),
+      model,
+      executeFirst: task.executeFirst,
+      readOnly: task.readOnly,
+      workingDir: task.workingDir,
+      quotedContext: task.quotedContext,
+    });
+  }
+
+  private async handleTasksCommand(chatId: string, tasksCommand: TasksCommandRequest): Promise<void> {
+    const scopeChatId = tasksCommand.allChats ? undefined : tasksCommand.chatId || chatId;
+    const tasks = this.executor.getAllTasks().filter(task => (
+      (!scopeChatId || task.chatId === scopeChatId)
+      && (!tasksCommand.userId || task.userId === tasksCommand.userId)
+    ));
+
+    const recent = tasks
+      .filter(task => task.status !== 'running' && task.status !== 'pending')
+      .sort((a, b) => (b.completedAt?.getTime() || 0) - (a.completedAt?.getTime() || 0))
+      .slice(0, this.MAX_LISTED_RECENT_TASKS);
+    const scope = [
+      scopeChatId ? (scopeChatId === chatId ? '当前会话' : `群聊 ${scopeChatId}`) : '全部会话',
+      tasksCommand.userId ? `用户 ${tasksCommand.userId}` : '',
+    ].filter(Boolean).join(' · ');
+
+    const card = buildTaskListCard(`📋 任务列表（${scope}）`, [
+      { label: '运行中', tasks: tasks.filter(task => task.status === 'running') },
+      { label: '排队中 / 待审批', tasks: tasks.filter(task => task.status === 'pending') },
+      { label: '最近结束', tasks: recent },
+    ]);
+    await this.bot.sendMessage(chatId, JSON.stringify(card), 'interactive');
+  }
+
+  /** A task the sender may inspect: one from this chat, or any task for `manage_tasks`. */
+  private findVisibleTask(event: FeishuMessageEvent, chatId: string, taskId: string): TaskInfo | undefined {
+    const task = this.executor.getTask(taskId);
+    if (!task || (task.chatId !== chatId && !this.accessControl.can(event, 'manage_tasks'))) {
+      return undefined;
+    }
+    return task;
+  }
+
+  private async handleTaskDetailCommand(event: FeishuMessageEvent, chatId: string, taskId: string): Promise<void> {
+    const task = this.findVisibleTask(event, chatId, taskId);
+    if (!task) {
+      await this.bot.sendMessage(chatId, `❌ 未找到任务：\`${taskId}\``, 'text');
+      return;
+    }
+    await this.bot.sendMessage(chatId, JSON.stringify(buildTaskProgressCard(task)), 'interactive');
+  }
+
+  private async handleApprovalCommand(
+    chatId: string,
+    senderId: string,
+    approvalCommand: ApprovalCommandRequest,
+  ): Promise<void> {
+    const { action, taskId } = approvalCommand;
+    const task = this.executor.getTask(taskId);
+    if (!task || task.approval?.state !== 'waiting' || task.status !== 'pending') {
+      await this.bot.sendMessage(chatId, `任务 \`${taskId}\` 不在待审批状态。`, 'text');
+      return;
+    }
+
+    if (action === 'reject') {
+      // The task:cancelled listener reports the rejection and refreshes the card.
+      this.executor.rejectTask(task.id, senderId);
+      return;
+    }
+
+    await this.executor.approveTask(task.id, senderId);
+    await this.refreshApprovalCard(task);
+  }
+
+  private async refreshApprovalCard(task: TaskInfo): Promise<void> {
+    const messageId = this.approvalCards.get(task.id);
+    if (!messageId) {
+      return;
+    }
+    this.approvalCards.delete(task.id);
+    try {
+      await this.bot.updateMessage(messageId, JSON.stringify(this.handler.buildApprovalCard(task)));
+    } catch (error) {
+      logger.warn(`Failed to update approval card for task ${task.id}`, error);
+    }
+  }
+
+  private async handlePatchCommand(event: FeishuMessageEvent, chatId: string, taskId: string): Promise<void> {
+    const task = this.findVisibleTask(event, chatId, taskId);
+    if (!task) {
+      await this.bot.sendMessage(chatId, `❌ 未找到任务：\`${taskId}\``, 'text');
+      return;
+    }
+    if (!task.changes) {
+      await this.bot.sendMessage(chatId, `任务 \`${taskId}\` 没有记录到文件改动。`, 'text');
+      return;
+    }
+
+    let patch: string;
+    try {
+      patch = await this.executor.renderPatch(task.id);
+    } catch (error) {
+      logger.warn(`Failed to render patch for task ${task.id}`, error);
+      await this.bot.sendMessage(chatId, '❌ 生成补丁失败（相关 git 对象可能已被清理）。', 'text');
+      return;
+    }
+
+    if (task.changes.mayIncludeOtherTasks) {
+      await this.bot.sendMessage(chatId, `⚠️ 任务 \`${task.id}\` 运行期间同一仓库中有其他任务，补丁可能包含它们的修改。`, 'text');
+    }
+    await this.sendGeneratedFile(chatId, `${task.id}.patch`, patch);
+  }
+
+  /**
+   * Sends a task's transcript as a file. `md` wraps the output with task
+   * metadata; `log` and `events` are the raw files.
+   */
+  private async handleOutputCommand(
+    event: FeishuMessageEvent,
+    chatId: string,
+    outputCommand: OutputCommandRequest,
+  ): Promise<void> {
+    const { taskId } = outputCommand;
+    const transcripts = this.executor.getTranscripts();
+    const task = this.findVisibleTask(event, chatId, taskId);
+    if (!task) {
+      await this.bot.sendMessage(chatId, `❌ 未找到任务：\`${taskId}\``, 'text');
+      return;
+    }
+
+    const format = outputCommand.format || 'md';
+    if (format !== 'md') {
+      if (!await transcripts.has(task.id, format)) {
+        await this.bot.sendMessage(chatId, `❌ 未找到任务 \`${task.id}\` 的${format === 'log' ? '输出记录' : '事件记录'}。`, 'text');
+        return;
+      }
+      await this.bot.sendFile(chatId, transcripts.pathFor(task.id, format));
+      return;
+    }
+
+    // Tasks that never started, or ran before transcripts existed, only have the in-memory output.
+    const rawOutput = await transcripts.readOutput(task.id) ?? task.output.join('');
+    await this.sendGeneratedFile(chatId, `${task.id}.md`, this.handler.buildTranscriptMarkdown(task, rawOutput));
+  }
+
+  private async sendGeneratedFile(chatId: string, fileName: string, content: string): Promise<void> {
+    const outboxDir = join(this.uploadStagingDir, 'outbox');
+    const filePath = join(outboxDir, fileName);
+    await mkdir(outboxDir, { recursive: true });
+    await writeFile(filePath, content, 'utf8');
+    try {
+      await this.bot.sendFile(chatId, filePath);
+    } finally {
+      await rm(filePath, { force: true });
+    }
+  }
+
+  private journalActiveTasks(): void {
+    const entries: InterruptedTaskEntry[] = this.executor.getAllTasks()
+      .filter(task => task.status === 'running' || task.status === 'pending')
+      .map(task => ({
+        taskId: task.id,
+        status: task.status,
+        command: task.command,
+        userId: task.userId,
+        chatId: task.chatId,
+        messageId: task.messageId,
+        bridgeSessionId: this.taskBridgeSession.get(task.id) || this.findSessionId(task.userId, task.chatId),
+        opencodeSessionId: task.opencodeSessionId,
+        model: task.model,
+        executeFirst: task.executeFirst,
+        readOnly: task.readOnly,
+        responseMode: this.taskResponseMode.get(task.id) || task.responseMode,
+        files: task.files || [],
+        workingDir: task.workingDir,
+        quotedContext: task.quotedContext,
+        interruptedAt: new Date(),
+      }));
+
+    if (entries.length > 0) {
+      logger.info(`Journaling ${entries.length} interrupted task(s) for re-run after restart`);
+      this.taskJournal.record(entries);
+    }
+  }
+
+  private async notifyInterruptedTasks(entries: InterruptedTaskEntry[]): Promise<void> {
+    const byChat = new Map<string, InterruptedTaskEntry[]>();
+    for (const entry of entries) {
+      const list = byChat.get(entry.chatId) || [];
+      list.push(entry);
+      byChat.set(entry.chatId, list);
+    }
+
+    for (const [chatId, chatEntries] of byChat) {
+      const lines = chatEntries.map((entry) => {
+        const preview = entry.command.length > 60 ? `${entry.command.substring(0, 60)}...` : entry.command;
+        const state = entry.status === 'pending' ? '排队中' : '执行中';
+        return `• \`${entry.taskId}\`（${state}）${preview}`;
+      });
+
+      try {
+        await this.bot.sendMessage(
+          chatId,
+          [
+            '⚠️ 桥接服务已重启，以下任务被中断：',
+            ...lines,
+            '发送 `!resume <任务ID>` 重新执行（沿用原会话、模型和附件），或 `!resume all` 全部重新执行。',
+          ].join('\n'),
+          'text',
+        );
+      } catch (error) {
+        logger.warn(`Failed to notify chat ${chatId} about interrupted tasks`, error);
+      }
+    }
+  }
+
+  private async handleResumeCommand(
+    event: FeishuMessageEvent,
+    chatId: string,
+    senderId: string,
+    resumeCommand: ResumeCommandRequest,
+  ): Promise<void> {
+    const canManageOthers = this.accessControl.can(event, 'manage_tasks');
+    const candidates = this.taskJournal.list().filter(entry => entry.chatId === chatId);
+    const targets = resumeCommand.target === 'all'
+      ? candidates.filter(entry => canManageOthers || entry.userId === senderId)
+      : candidates.filter(entry => entry.taskId === resumeCommand.taskId);
+
+    if (targets.length === 0) {
+      await this.bot.sendMessage(chatId, '当前会话没有可重新执行的中断任务。', 'text');
+      return;
+    }
+
+    for (const entry of targets) {
+      if (entry.userId !== senderId && !canManageOthers) {
+        await this.bot.sendMessage(chatId, '🚫 只能重新执行自己发起的任务（管理他人任务需要 `admin` 权限）。', 'text');
+        continue;
+      }
+
+      const files = await this.filterExistingFiles(entry.files);
+      if (files.length < entry.files.length) {
+        await this.bot.sendMessage(
+          chatId,
+          `⚠️ 任务 \`${entry.taskId}\` 有 ${entry.files.length - files.length} 个附件已不存在，将在无该附件的情况下执行。`,
+          'text',
+        );
+      }
+
+      this.taskJournal.remove(entry.taskId);
+      const task = await this.submitTask({
+        command: entry.command,
+        userId: entry.userId,
+        chatId: entry.chatId,
+        messageId: entry.messageId,
+        sessionId: entry.bridgeSessionId,
+        files,
+        opencodeSessionId: entry.opencodeSessionId,
+        responseMode: entry.responseMode || this.getSessionTaskMode(entry.bridgeSessionId),
+        model: entry.model,
+        executeFirst: entry.executeFirst,
+        readOnly: entry.readOnly,
+        workingDir: entry.workingDir,
+        quotedContext: entry.quotedContext,
+      });
+      logger.info(`Resumed interrupted task ${entry.taskId} as ${task.id}`);
+    }
+  }
+
+  private async filterExistingFiles(files: string[]): Promise<string[]> {
+    const existing: string[] = [];
+    for (const filePath of files) {
+      try {
+        await access(filePath, fsConstants.R_OK);
+        existing.push(filePath);
+      } catch {
+        logger.warn(`Attached file no longer exists: ${filePath}`);
+      }
+    }
+    return existing;
+  }
+
   private describeNotifyMode(mode: NotificationMode): string {
     if (mode === 'quiet') {
       return '开始 + 最终结果，执行中不推送。';
@@ -669,17 +2046,12 @@ export class OpenCodeFeishuBridge {
       return;
     }
 
-    await mkdir(this.uploadStagingDir, { recursive: true });
-    const sessionDir = join(this.uploadStagingDir, this.normalizePathSegment(sessionId));
-    await mkdir(sessionDir, { recursive: true });
-
     const safeName = this.sanitizeFileName(fileName || `feishu_file_${Date.now()}`);
-    const localPath = join(sessionDir, `${Date.now()}_${safeName}`);
-
-    await this.bot.downloadMessageFile({
+    const localPath = await this.stageMessageResource({
       messageId: message.message_id,
       fileKey,
-      targetPath: localPath,
+      fileName: safeName,
+      sessionId,
       resourceType: 'file',
     });
 
@@ -691,6 +2063,205 @@ export class OpenCodeFeishuBridge {
     );
   }
 
+  /**
+   * Downloads the images embedded in a rich text post. A post with text (an
+   * image with a caption) gets them back to attach to the task it starts; an
+   * image-only post stages them for the sender's next task.
+   */
+  private async stagePostImages(event: FeishuMessageEvent, sessionId: string): Promise<string[]> {
+    const message = event.event?.message;
+    const chatId = message?.chat_id || '';
+    if (!message?.message_id || !chatId) {
+      return [];
+    }
+
+    const { text, imageKeys } = parsePostContent(message.content);
+    if (!this.isAddressedToBot(event) || imageKeys.length === 0) {
+      return [];
+    }
+
+    const localPaths: string[] = [];
+    for (const imageKey of imageKeys.slice(0, this.MAX_PENDING_FILES)) {
+      try {
+        const localPath = await this.stageMessageResource({
+          messageId: message.message_id,
+          fileKey: imageKey,
+          fileName: `image_${imageKey}`,
+          sessionId,
+          resourceType: 'image',
+        });
+        localPaths.push(localPath);
+      } catch (error) {
+        logger.warn(`Failed to download post image ${imageKey}`, error);
+      }
+    }
+
+    if (localPaths.length < imageKeys.length) {
+      await this.bot.sendMessage(chatId, `⚠️ 富文本中有 ${imageKeys.length - localPaths.length} 张图片未能附带。`, 'text');
+    }
+    const remainingText = (message.mentions || [])
+      .reduce((current, mention) => current.split(mention.key).join(''), text)
+      .trim();
+    if (remainingText || localPaths.length === 0) {
+      return localPaths;
+    }
+
+    // Image-only posts start no task, so confirm the upload like a file message does.
+    for (const localPath of localPaths) {
+      this.addPendingFile(sessionId, localPath);
+    }
+    await this.bot.sendMessage(
+      chatId,
+      `🖼️ 已接收 ${localPaths.length} 张图片\n请继续发送任务指令，我会将图片传给 opencode。`,
+      'text',
+    );
+    return [];
+  }
+
+  private async handleIncomingImageMessage(event: FeishuMessageEvent, sessionId: string): Promise<void> {
+    const message = event.event?.message;
+    const chatId = message?.chat_id || '';
+    if (!message?.message_id || !chatId) {
+      return;
+    }
+
+    const imageKey = this.parseImageKey(message.content);
+    if (!imageKey) {
+      await this.bot.sendMessage(chatId, '❌ 收到图片消息，但未解析到 image_key。', 'text');
+      return;
+    }
+
+    const localPath = await this.stageMessageResource({
+      messageId: message.message_id,
+      fileKey: imageKey,
+      fileName: `image_${imageKey}`,
+      sessionId,
+      resourceType: 'image',
+    });
+    this.addPendingFile(sessionId, localPath);
+    await this.bot.sendMessage(
+      chatId,
+      '🖼️ 已接收图片\n请继续发送任务指令，我会将图片传给 opencode。',
+      'text',
+    );
+  }
+
+  /**
+   * Transcribes a voice message, echoes the transcript and then handles it
+   * exactly as if the user had typed it.
+   */
+  private async handleIncomingAudioMessage(event: FeishuMessageEvent, sessionId: string): Promise<void> {
+    const message = event.event?.message;
+    const chatId = message?.chat_id || '';
+    // Voice messages cannot @mention the bot, so groups that require a mention never dictate tasks.
+    if (!message?.message_id || !chatId || !this.isAddressedToBot(event)) {
+      return;
+    }
+
+    if (!this.transcriber.isEnabled()) {
+      await this.bot.sendMessage(chatId, '🎙️ 未配置语音转写（`STT_PATH`），暂不支持语音消息，请改用文字。', 'text');
+      return;
+    }
+
+    const { fileKey } = this.parseFileContent(message.content);
+    if (!fileKey) {
+      await this.bot.sendMessage(chatId, '❌ 收到语音消息，但未解析到 file_key。', 'text');
+      return;
+    }
+
+    const audioPath = await this.stageMessageResource({
+      messageId: message.message_id,
+      fileKey,
+      fileName: `voice_${Date.now()}.opus`,
+      sessionId,
+      resourceType: 'file',
+    });
+
+    let transcript: string;
+    try {
+      transcript = await this.transcriber.transcribe(audioPath);
+    } catch (error) {
+      logger.warn('Voice transcription failed', error);
+      await this.bot.sendMessage(chatId, '❌ 语音识别失败，请重试或改用文字。', 'text');
+      return;
+    } finally {
+      await rm(audioPath, { force: true });
+    }
+
+    if (!transcript) {
+      await this.bot.sendMessage(chatId, '🎙️ 未识别到语音内容。', 'text');
+      return;
+    }
+
+    await this.bot.sendMessage(chatId, `🎙️ 语音识别结果：\n${transcript}`, 'text');
+    await this.handleIncomingMessage({
+      ...event,
+      event: {
+        ...event.event,
+        message: {
+          ...message,
+          message_type: 'text',
+          content: JSON.stringify({ text: transcript }),
+        },
+      },
+    });
+  }
+
+  private isAddressedToBot(event: FeishuMessageEvent): boolean {
+    const message = event.event?.message;
+    return message?.chat_type === 'p2p'
+      || !config.security.requireMention
+      || (message?.mentions || []).length > 0;
+  }
+
+  private async stageMessageResource(params: {
+    messageId: string;
+    fileKey: string;
+    fileName: string;
+    sessionId: string;
+    resourceType: 'file' | 'image';
+  }): Promise<string> {
+    const sessionDir = join(this.uploadStagingDir, this.normalizePathSegment(params.sessionId));
+    await mkdir(sessionDir, { recursive: true });
+
+    const safeName = this.sanitizeFileName(params.fileName);
+    const localPath = join(sessionDir, `${Date.now()}_${safeName}`);
+
+    await this.bot.downloadMessageFile({
+      messageId: params.messageId,
+      fileKey: params.fileKey,
+      targetPath: localPath,
+      resourceType: params.resourceType,
+    });
+
+    if (params.resourceType !== 'image') {
+      return localPath;
+    }
+
+    // Image resources come without a name; give opencode an extension it can map to a mime type.
+    const extension = await this.detectImageExtension(localPath);
+    const namedPath = `${localPath}${extension}`;
+    await rename(localPath, namedPath);
+    return namedPath;
+  }
+
+  private async detectImageExtension(filePath: string): Promise<string> {
+    const handle = await open(filePath, 'r');
+    try {
+      const header = Buffer.alloc(12);
+      await handle.read(header, 0, header.length, 0);
+      if (header.subarray(0, 4).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47]))) return '.png';
+      if (header.subarray(0, 3).equals(Buffer.from([0xff, 0xd8, 0xff]))) return '.jpg';
+      if (header.subarray(0, 3).toString('ascii') === 'GIF') return '.gif';
+      if (header.subarray(0, 4).toString('ascii') === 'RIFF' && header.subarray(8, 12).toString('ascii') === 'WEBP') {
+        return '.webp';
+      }
+      return '.png';
+    } finally {
+      await handle.close();
+    }
+  }
+
   private parseFileContent(rawContent: string): { fileKey?: string; fileName?: string } {
     try {
       const parsed = JSON.parse(rawContent) as Record<string, unknown>;
@@ -702,6 +2273,15 @@ export class OpenCodeFeishuBridge {
     }
   }
 
+  private parseImageKey(rawContent: string): string | undefined {
+    try {
+      const parsed = JSON.parse(rawContent) as Record<string, unknown>;
+      return this.asString(parsed.image_key) || this.asString(parsed.imageKey);
+    } catch {
+      return undefined;
+    }
+  }
+
   private addPendingFile(sessionId: string, localPath: string): void {
     const files = this.pendingFilesBySession.get(sessionId) || [];
     files.push(localPath);
@@ -736,6 +2316,52 @@ export class OpenCodeFeishuBridge {
     }));
   }
 
+  /**
+   * Keeps a finished task's attachments for `!retry` until the retry window
+   * passes, then deletes them.
+   */
+  private retainTaskFiles(taskId: string): void {
+    const files = this.taskAttachedFiles.get(taskId);
+    if (!files || files.length === 0) {
+      return;
+    }
+
+    if (config.opencode.retryWindow <= 0) {
+      void this.cleanupTaskFiles(taskId);
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      this.taskFileExpiry.delete(taskId);
+      this.cleanupTaskFiles(taskId).catch((error: unknown) => {
+        logger.warn(`Failed to cleanup files of task ${taskId}`, error);
+      });
+    }, config.opencode.retryWindow);
+    timer.unref();
+    this.taskFileExpiry.set(taskId, timer);
+  }
+
+  /** Hands a task's retained attachments over to its retry; expired files are skipped. */
+  private async takeRetainedFiles(task: TaskInfo): Promise<{ files: string[]; missing: number }> {
+    const timer = this.taskFileExpiry.get(task.id);
+    if (timer) {
+      clearTimeout(timer);
+      this.taskFileExpiry.delete(task.id);
+    }
+    this.taskAttachedFiles.delete(task.id);
+
+    const files: string[] = [];
+    for (const filePath of task.files || []) {
+      try {
+        await access(filePath, fsConstants.R_OK);
+        files.push(filePath);
+      } catch {
+        logger.info(`Attachment ${filePath} of task ${task.id} has expired`);
+      }
+    }
+    return { files, missing: (task.files?.length || 0) - files.length };
+  }
+
   private async cleanupTaskFiles(taskId: string): Promise<void> {
     const files = this.taskAttachedFiles.get(taskId);
     if (!files || files.length === 0) {
@@ -752,18 +2378,18 @@ export class OpenCodeFeishuBridge {
     }));
   }
 
-  private async handleSendFileCommand(chatId: string, filePathInput: string): Promise<void> {
-    const resolvedPath = this.resolveFilePath(filePathInput);
+  private async handleSendFileCommand(chatId: string, sessionId: string, filePathInput: string): Promise<void> {
+    const resolvedPath = this.resolveFilePath(filePathInput, this.resolveProjectDir(sessionId, chatId));
     await access(resolvedPath, fsConstants.R_OK);
     await this.bot.sendFile(chatId, resolvedPath);
     await this.bot.sendMessage(chatId, `✅ 文件已发送：\`${basename(resolvedPath)}\``, 'text');
   }
 
-  private resolveFilePath(inputPath: string): string {
+  private resolveFilePath(inputPath: string, baseDir: string): string {
     if (isAbsolute(inputPath)) {
       return inputPath;
     }
-    return resolve(config.opencode.workingDir, inputPath);
+    return resolve(baseDir, inputPath);
   }
 
   private sanitizeFileName(fileName: string): string {
@@ -791,7 +2417,20 @@ export class OpenCodeFeishuBridge {
 
     logger.info('Shutting down bridge...');
 
+    if (this.sessionSweepTimer) {
+      clearInterval(this.sessionSweepTimer);
+      this.sessionSweepTimer = null;
+    }
+    if (this.transcriptPruneTimer) {
+      clearInterval(this.transcriptPruneTimer);
+      this.transcriptPruneTimer = null;
+    }
+    this.scheduler.stop();
+
+    // Journal before cleanup so the staged files of interrupted tasks are kept for a re-run.
+    this.journalActiveTasks();
     this.executor.cleanup();
+    await this.stateStore.flush();
     await this.bot.stop();
 
     logger.info('Bridge stopped');
@@ -0,0 +1,128 @@
+import { readdir, readFile, realpath, stat } from 'fs/promises';
+import { isAbsolute, join, resolve, sep } from 'path';
+import { config } from '../config.js';
+import { logger } from '../utils/logger.js';
+
+export interface ProjectPathResolution {
+  path?: string;
+  reason?: 'not_found' | 'not_directory' | 'outside_roots';
+}
+
+/**
+ * Knows which directories tasks may run in: the allowlisted project roots and
+ * the static chat → directory bindings from `PROJECT_BINDINGS_FILE`.
+ */
+export class ProjectRegistry {
+  private readonly configuredRoots: string[];
+  private readonly bindingsFile?: string;
+  private readonly MAX_LISTED_PROJECTS = 30;
+  private roots: string[] = [];
+  private chatBindings = new Map<string, string>();
+
+  constructor(options: { roots: string[]; bindingsFile?: string } = config.projects) {
+    this.configuredRoots = options.roots;
+    this.bindingsFile = options.bindingsFile;
+  }
+
+  async load(): Promise<void> {
+    this.roots = [];
+    for (const root of this.configuredRoots) {
+      try {
+        this.roots.push(await realpath(resolve(root)));
+      } catch {
+        logger.warn(`Ignoring project root that does not exist: ${root}`);
+      }
+    }
+
+    if (!this.bindingsFile) {
+      return;
+    }
+
+    let raw: Record<string, unknown>;
+    try {
+      raw = JSON.parse(await readFile(this.bindingsFile, 'utf8')) as Record<string, unknown>;
+    } catch (error) {
+      logger.error(`Failed to read project bindings from ${this.bindingsFile}`, error);
+      return;
+    }
+
+    for (const [chatId, path] of Object.entries(raw || {})) {
+      if (typeof path !== 'string') {
+        continue;
+      }
+      const resolution = await this.resolvePath(path);
+      if (!resolution.path) {
+        logger.warn(`Ignoring project binding for chat ${chatId}: ${path} (${resolution.reason})`);
+        continue;
+      }
+      this.chatBindings.set(chatId, resolution.path);
+    }
+    logger.info(`Loaded ${this.chatBindings.size} chat project binding(s)`);
+  }
+
+  getRoots(): string[] {
+    return [...this.roots];
+  }
+
+  getChatBinding(chatId: string): string | undefined {
+    return this.chatBindings.get(chatId);
+  }
+
+  /**
+   * Resolves a user supplied path. Relative paths are tried against each root
+   * in order; the real path (after symlinks) must stay inside a root.
+   */
+  async resolvePath(input: string): Promise<ProjectPathResolution> {
+    const candidates = isAbsolute(input)
+      ? [input]
+      : this.roots.map(root => join(root, input));
+
+    let lastReason: ProjectPathResolution['reason'] = 'not_found';
+    for (const candidate of candidates) {
+      let realPath: string;
+      try {
+        realPath = await realpath(candidate);
+      } catch {
+        continue;
+      }
+
+      if (!(await stat(realPath)).isDirectory()) {
+        lastReason = 'not_directory';
+        continue;
+      }
+      if (!this.isWithinRoots(realPath)) {
+        lastReason = 'outside_roots';
+        continue;
+      }
+      return { path: realPath };
+    }
+    return { reason: lastReason };
+  }
+
+  async listProjects(): Promise<string[]> {
+    const projects: string[] = [];
+    for (const root of this.roots) {
+      let entries;
+      try {
+        entries = await readdir(root, { withFileTypes: true });
+      } catch (error) {
+        logger.warn(`Failed to list project root ${root}`, error);
+        continue;
+      }
+
+      for (const entry of entries) {
+        if (entry.isDirectory() && !entry.name.startsWith('.')) {
+          projects.push(join(root, entry.name));
+        }
+        if (projects.length >= this.MAX_LISTED_PROJECTS) {
+          return projects;
+        }
+      }
+    }
+    return projects;
+  }
+
+  isWithinRoots(path: string): boolean {
+    return this.roots.some(root => path === root || path.startsWith(root.endsWith(sep) ? root : `${root}${sep}`));
+  }
+}
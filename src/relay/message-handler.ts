@@ -1,4 +1,9 @@
 import { config } from '../config.js';
+import { AccessControl } from '../security/access-control.js';
+import { hasPermission, minimumRoleFor } from '../security/permissions.js';
+import { reviveDate } from '../storage/state-store.js';
+import { buildActionRow, type CardButton } from '../utils/card-builder.js';
+import { parsePostContent } from '../utils/post-content.js';
 import type {
   BotResponse,
   FeishuMessageEvent,
@@ -6,11 +11,28 @@ import type {
   ModelCommandRequest,
   NotificationMode,
   NotifyCommandRequest,
+  Permission,
+  ProjectCommandRequest,
+  ScheduleCommandRequest,
   SessionInfo,
+  TasksCommandRequest,
+  TaskChangedFile,
   TaskInfo,
   TaskResponseMode,
+  TranscriptFormat,
+  UserRole,
 } from '../types.js';
 
+interface PersistedSession {
+  id: string;
+  userId: string;
+  chatId: string;
+  createdAt: string;
+  lastActivityAt: string;
+  taskIds: string[];
+  context: Record<string, unknown>;
+}
+
 export class MessageHandler {
   private readonly SESSION_EXECUTE_FIRST_KEY = 'executeFirst';
   private sessions: Map<string, SessionInfo> = new Map();
@@ -22,6 +44,15 @@ export class MessageHandler {
   private readonly CARD_MEDIUM_OVERLAP_FACTOR = 0.7;
   private readonly CONCISE_MAX_LENGTH = 900;
   private readonly CONCISE_MAX_LINES = 6;
+  private readonly PARTIAL_OUTPUT_MAX_LENGTH = 1500;
+  private readonly PROGRESS_CARD_MAX_LINES = 8;
+  private readonly CHANGED_FILES_MAX_COUNT = 15;
+  private readonly APPROVAL_COMMAND_MAX_LENGTH = 800;
+  private readonly accessControl: AccessControl;
+
+  constructor(accessControl: AccessControl = new AccessControl()) {
+    this.accessControl = accessControl;
+  }
 
   async handleMessage(event: FeishuMessageEvent): Promise<BotResponse | null> {
     const message = event.event?.message;
@@ -46,32 +77,73 @@ export class MessageHandler {
     const session = this.getOrCreateSession(sessionId, senderId, chatId);
     session.lastActivityAt = new Date();
 
+    const role = this.accessControl.resolveRole(event);
     const builtin = extracted.startsWith('!') ? extracted.toLowerCase() : '';
     if (builtin.startsWith('!sendfile')) {
-      return this.handleSendFile(extracted);
+      return this.denyUnlessPermitted(role, 'send_file') || this.handleSendFile(extracted);
     }
     if (builtin === '!help' || builtin === '!h') {
       return this.handleHelp();
     }
     if (builtin === '!status' || builtin === '!s') {
-      return this.handleStatus();
+      return this.denyUnlessPermitted(role, 'read_status') || { showStatus: true };
     }
     if (builtin === '!history' || builtin === '!hist') {
-      return this.handleHistory(session);
+      return this.denyUnlessPermitted(role, 'read_history') || this.handleHistory(session);
     }
     if (builtin === '!clear' || builtin === '!c') {
-      return this.handleClear(session);
+      return this.denyUnlessPermitted(role, 'manage_session') || this.handleClear(session);
+    }
+    if (/^[/!]cancel\b/i.test(extracted)) {
+      return this.denyUnlessPermitted(role, 'run_task') || this.handleCancel(session, extracted);
+    }
+    if (/^[/!]resume\b/i.test(extracted)) {
+      return this.denyUnlessPermitted(role, 'run_task') || this.handleResume(extracted);
+    }
+    if (/^[/!]output\b/i.test(extracted)) {
+      return this.denyUnlessPermitted(role, 'read_history') || this.handleOutput(session, extracted);
+    }
+    if (/^[/!](?:approve|reject)\b/i.test(extracted)) {
+      return this.denyUnlessPermitted(role, 'approve_task') || this.handleApproval(extracted);
+    }
+    if (/^[/!](?:retry|rerun)\b/i.test(extracted)) {
+      return this.denyUnlessPermitted(role, 'run_task') || this.handleRetry(role, session, extracted);
+    }
+    const continueMatch = extracted.match(/^[/!]continue(?:\s+(\S+))?$/i);
+    if (continueMatch) {
+      return this.denyUnlessPermitted(role, 'run_task') || (continueMatch[1]
+        ? { continueCommand: { taskId: this.trimSurroundingQuotes(continueMatch[1]) } }
+        : { text: '用法：`!continue <任务ID>`（在该任务的 opencode 会话中继续对话）' });
+    }
+    if (/^[/!]tasks\b/i.test(extracted)) {
+      return this.denyUnlessPermitted(role, 'read_history') || this.handleTasks(role, extracted);
+    }
+    if (/^[/!]task\b/i.test(extracted)) {
+      return this.denyUnlessPermitted(role, 'read_history') || this.handleTaskDetail(session, extracted);
+    }
+    if (/^[/!]patch\b/i.test(extracted)) {
+      return this.denyUnlessPermitted(role, 'read_history') || this.handlePatch(session, extracted);
+    }
+    if (/^[/!]branch\b/i.test(extracted)) {
+      return this.denyUnlessPermitted(role, 'run_task') || this.handleBranch(session, extracted);
     }
 
     const sessionReset = this.extractSessionResetIntent(extracted);
     if (sessionReset.shouldReset) {
+      const resetDenied = this.denyUnlessPermitted(role, 'manage_session');
+      if (resetDenied) {
+        return resetDenied;
+      }
+
       if (sessionReset.command) {
-        return {
+        const intentHint = this.inferIntentHint(sessionReset.command);
+        return this.denyUnlessPermitted(role, this.permissionForIntent(intentHint)) || {
           text: '🆕 已切换到新会话，开始执行新任务。',
           resetSession: true,
           executeCommand: sessionReset.command,
-          executeFirst: this.getSessionExecuteFirst(session),
-          intentHint: this.inferIntentHint(sessionReset.command),
+          executeFirst: hasPermission(role, 'run_task') ? this.getSessionExecuteFirst(session) : false,
+          readOnly: !hasPermission(role, 'run_task'),
+          intentHint,
         };
       }
 
@@ -83,12 +155,37 @@ export class MessageHandler {
 
     const modelCommand = this.extractModelCommand(extracted);
     if (modelCommand) {
-      return { modelCommand };
+      const permission: Permission = modelCommand.action === 'list' || modelCommand.action === 'current'
+        ? 'read_status'
+        : 'change_model';
+      return this.denyUnlessPermitted(role, permission) || { modelCommand };
     }
 
     const notifyCommand = this.extractNotifyCommand(extracted);
     if (notifyCommand) {
-      return { notifyCommand };
+      const permission: Permission = notifyCommand.action === 'current' ? 'read_status' : 'set_preference';
+      return this.denyUnlessPermitted(role, permission) || { notifyCommand };
+    }
+
+    const projectCommand = this.extractProjectCommand(extracted);
+    if (projectCommand) {
+      const permission: Permission = projectCommand.action === 'list' || projectCommand.action === 'current'
+        ? 'read_status'
+        : 'bind_project';
+      return this.denyUnlessPermitted(role, permission) || { projectCommand };
+    }
+
+    const scheduleCommand = this.extractScheduleCommand(extracted);
+    if (scheduleCommand) {
+      const permission: Permission = scheduleCommand.action === 'list' ? 'read_status' : 'schedule_task';
+      return this.denyUnlessPermitted(role, permission) || { scheduleCommand };
+    }
+
+    if (/^[/!]agent\b/i.test(extracted)) {
+      const agentDenied = this.denyUnlessPermitted(role, 'set_preference');
+      if (agentDenied) {
+        return agentDenied;
+      }
     }
 
     const agentPreferenceResponse = this.handleAgentPreferenceCommand(session, extracted);
@@ -106,10 +203,19 @@ export class MessageHandler {
       };
     }
 
+    const intentHint = this.inferIntentHint(executeCommand);
+    const executeDenied = this.denyUnlessPermitted(role, this.permissionForIntent(intentHint));
+    if (executeDenied) {
+      return executeDenied;
+    }
+
     return {
       executeCommand,
-      executeFirst: this.getSessionExecuteFirst(session),
-      intentHint: this.inferIntentHint(executeCommand),
+      // Viewers may only chat, so never ask the agent to act on their behalf and
+      // have opencode refuse any tool that could change something.
+      executeFirst: hasPermission(role, 'run_task') ? this.getSessionExecuteFirst(session) : false,
+      readOnly: !hasPermission(role, 'run_task'),
+      intentHint,
     };
   }
 
@@ -122,20 +228,7 @@ export class MessageHandler {
 
   handleTaskProgress(task: TaskInfo, progress: string): BotResponse {
     this.updateTask(task);
-    const compact = this.normalizeOutput(progress);
-    const lines = compact
-      .split('\n')
-      .map(line => line.trim())
-      .filter(Boolean);
-    const uniqueLines: string[] = [];
-
-    for (const line of lines) {
-      if (!uniqueLines.includes(line)) {
-        uniqueLines.push(line);
-      }
-    }
-
-    const displayLines = uniqueLines.slice(-4);
+    const displayLines = this.collectProgressLines(progress).slice(-4);
     const body = displayLines.length > 0
       ? displayLines.map(line => `• ${line}`).join('\n')
       : '• 正在处理...';
@@ -145,6 +238,258 @@ export class MessageHandler {
     };
   }
 
+  buildProgressCard(task: TaskInfo, progress: string): Record<string, unknown> {
+    this.updateTask(task);
+    const displayLines = this.collectProgressLines(progress).slice(-this.PROGRESS_CARD_MAX_LINES);
+    const body = displayLines.length > 0
+      ? displayLines.map(line => `• ${this.toCardMarkdown(line)}`).join('\n')
+      : '• 正在处理...';
+    const elapsed = task.startedAt
+      ? `${Math.round((Date.now() - task.startedAt.getTime()) / 1000)}s`
+      : '0s';
+
+    return {
+      config: {
+        wide_screen_mode: true,
+        update_multi: true,
+      },
+      header: {
+        template: 'blue',
+        title: {
+          tag: 'plain_text',
+          content: '🚀 任务执行中',
+        },
+      },
+      elements: [
+        {
+          tag: 'div',
+          text: {
+            tag: 'lark_md',
+            content: `**任务 ID**：\`${task.id}\`  \n**模型**：${task.model || '默认'}  \n**已用时**：${elapsed}`,
+          },
+        },
+        { tag: 'hr' },
+        {
+          tag: 'div',
+          text: {
+            tag: 'lark_md',
+            content: `**最新进度**\n${body}`,
+          },
+        },
+        {
+          tag: 'note',
+          elements: [{ tag: 'plain_text', content: `更新于 ${new Date().toLocaleTimeString('zh-CN', { hour12: false })}` }],
+        },
+        this.buildTaskActionRow(task),
+      ],
+    };
+  }
+
+  buildTaskStatusCard(task: TaskInfo, text: string): Record<string, unknown> {
+    const header = task.status === 'failed'
+      ? { template: 'red', title: '❌ 任务失败' }
+      : task.status === 'cancelled'
+        ? { template: 'grey', title: '⏹️ 任务已取消' }
+        : { template: 'green', title: '✅ 任务完成' };
+    const detail = this.truncateText(text.trim() || '（无输出）', this.CARD_DETAIL_MAX_LENGTH);
+
+    return {
+      config: {
+        wide_screen_mode: true,
+        update_multi: true,
+      },
+      header: {
+        template: header.template,
+        title: {
+          tag: 'plain_text',
+          content: header.title,
+        },
+      },
+      elements: [
+        {
+          tag: 'div',
+          text: {
+            tag: 'lark_md',
+            content: `**任务 ID**：\`${task.id}\``,
+          },
+        },
+        { tag: 'hr' },
+        {
+          tag: 'div',
+          text: {
+            tag: 'lark_md',
+            content: this.toCardMarkdown(detail.text),
+          },
+        },
+        this.buildTaskActionRow(task),
+      ],
+    };
+  }
+
+  /**
+   * Approval request for a task held by the risk policy. Once decided the
+   * bridge patches the same card, which then drops its buttons.
+   */
+  buildApprovalCard(task: TaskInfo): Record<string, unknown> {
+    const approval = task.approval;
+    const header = approval?.state === 'approved'
+      ? { template: 'green', title: '✅ 任务已批准' }
+      : approval?.state === 'rejected'
+        ? { template: 'grey', title: '🚫 任务已拒绝' }
+        : task.status === 'cancelled'
+          ? { template: 'grey', title: '⏹️ 任务已取消' }
+          : { template: 'orange', title: '⚠️ 高风险任务待审批' };
+    const command = this.truncateText(task.command, this.APPROVAL_COMMAND_MAX_LENGTH);
+    const decision = approval?.decidedBy
+      ? `  \n**处理人**：<at id=${approval.decidedBy}></at>`
+      : '';
+
+    const elements: Array<Record<string, unknown>> = [
+      {
+        tag: 'div',
+        text: {
+          tag: 'lark_md',
+          content: `**任务 ID**：\`${task.id}\`  \n**发起人**：<at id=${task.userId}></at>  \n**命中规则**：\`${approval?.reason || '-'}\`${decision}`,
+        },
+      },
+      { tag: 'hr' },
+      {
+        tag: 'div',
+        text: {
+          tag: 'lark_md',
+          content: `**任务内容**\n${this.toCardMarkdown(command.text)}`,
+        },
+      },
+    ];
+
+    if (approval?.state === 'waiting' && task.status === 'pending') {
+      elements.push(buildActionRow([
+        { text: '✅ 批准执行', type: 'primary', value: { action: 'approve', taskId: task.id } },
+        { text: '🚫 拒绝', type: 'danger', value: { action: 'reject', taskId: task.id } },
+      ]));
+    }
+
+    return {
+      config: {
+        wide_screen_mode: true,
+        update_multi: true,
+      },
+      header: {
+        template: header.template,
+        title: {
+          tag: 'plain_text',
+          content: header.title,
+        },
+      },
+      elements,
+    };
+  }
+
+  /** Diff summary of an isolated task branch with merge/keep/discard buttons. */
+  buildWorktreeCard(task: TaskInfo): Record<string, unknown> | undefined {
+    const worktree = task.worktree;
+    if (!worktree || !task.changes || task.changes.files.length === 0) {
+      return undefined;
+    }
+
+    const taskId = task.id;
+    return {
+      config: {
+        wide_screen_mode: true,
+      },
+      header: {
+        template: 'turquoise',
+        title: {
+          tag: 'plain_text',
+          content: '🌿 任务分支待处理',
+        },
+      },
+      elements: [
+        {
+          tag: 'div',
+          text: {
+            tag: 'lark_md',
+            content: `**任务 ID**：\`${taskId}\`  \n**分支**：\`${worktree.branch}\`  \n**基于提交**：\`${worktree.baseCommit.substring(0, 8)}\``,
+          },
+        },
+        { tag: 'hr' },
+        {
+          tag: 'div',
+          text: {
+            tag: 'lark_md',
+            content: `**变更文件**\n${this.formatChangedFiles(task.changes.files)}`,
+          },
+        },
+        buildActionRow([
+          { text: '✅ 合并', type: 'primary', value: { action: 'merge', taskId } },
+          { text: '📌 保留分支', value: { action: 'keep', taskId } },
+          { text: '🗑️ 丢弃', type: 'danger', value: { action: 'discard', taskId } },
+          { text: '🧩 下载补丁', value: { action: 'patch', taskId } },
+        ]),
+      ],
+    };
+  }
+
+  /** Transcript file sent for `!output`: task metadata followed by the untrimmed output. */
+  buildTranscriptMarkdown(task: TaskInfo, rawOutput: string): string {
+    const duration = task.duration ? `${(task.duration / 1000).toFixed(2)}s` : '-';
+    return [
+      `# 任务 ${task.id}`,
+      '',
+      `- 状态：${task.status}`,
+      `- 模型：${task.model || '默认'}`,
+      `- 发起人：${task.userId}`,
+      `- 创建时间：${task.createdAt.toISOString()}`,
+      `- 耗时：${duration}`,
+      `- 退出码：${task.exitCode ?? '-'}`,
+      ...(task.error ? [`- 错误：${task.error}`] : []),
+      '',
+      '## 任务内容',
+      '',
+      '```text',
+      task.command,
+      '```',
+      '',
+      '## 完整输出',
+      '',
+      rawOutput.trim() || '（无输出）',
+      '',
+    ].join('\n');
+  }
+
+  formatFullOutput(task: TaskInfo): string {
+    return this.normalizeOutput(task.output.join(''));
+  }
+
+  /** Best-effort plain text of a fetched message, used as context when a user quote-replies to it. */
+  extractMessageText(messageType: string, rawContent: string): string {
+    if (messageType === 'post') {
+      return parsePostContent(rawContent).text;
+    }
+    if (messageType === 'image') {
+      return '[图片]';
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(rawContent);
+    } catch {
+      return rawContent.trim();
+    }
+    if (!parsed || typeof parsed !== 'object') {
+      return '';
+    }
+
+    const record = parsed as Record<string, unknown>;
+    if (messageType === 'file' || messageType === 'media') {
+      return typeof record.file_name === 'string' ? `[文件] ${record.file_name}` : '[文件]';
+    }
+    if (messageType === 'interactive') {
+      return this.collectCardText(record).join('\n').trim();
+    }
+    return typeof record.text === 'string' ? record.text.trim() : '';
+  }
+
   handleTaskComplete(task: TaskInfo, options?: { mode?: TaskResponseMode }): BotResponse {
     this.updateTask(task);
     const rawOutput = task.output.join('');
@@ -180,19 +525,21 @@ export class MessageHandler {
     this.updateTask(task);
     const mode = options?.mode || 'debug';
     const reasonText = options?.reason ? this.formatCancelReason(options.reason) : '';
+    const partialOutput = task.status === 'cancelled' ? this.formatPartialOutput(task) : '';
+    const partialSection = partialOutput ? `\n\n已收集的部分输出：\n${partialOutput}` : '';
 
     if (mode === 'silent') {
       return {
-        text: reasonText
+        text: (reasonText
           ? `⚠️ 状态：${task.status}（${reasonText}）`
-          : `⚠️ 状态：${task.status}`,
+          : `⚠️ 状态：${task.status}`) + partialSection,
       };
     }
 
     return {
-      text: reasonText
+      text: (reasonText
         ? `⚠️ 任务状态：${task.status}\n原因：${reasonText}`
-        : `⚠️ 任务状态：${task.status}`,
+        : `⚠️ 任务状态：${task.status}`) + partialSection,
     };
   }
 
@@ -239,6 +586,84 @@ export class MessageHandler {
     }
   }
 
+  expireIdleSessions(idleBefore: Date): SessionInfo[] {
+    const expired: SessionInfo[] = [];
+    for (const session of this.sessions.values()) {
+      if (session.lastActivityAt.getTime() >= idleBefore.getTime()) {
+        continue;
+      }
+      // A long task keeps its session alive even if nobody writes in the chat meanwhile.
+      const hasActiveTask = session.taskHistory.some(task => task.status === 'running' || task.status === 'pending');
+      if (hasActiveTask) {
+        continue;
+      }
+      expired.push(session);
+    }
+
+    for (const session of expired) {
+      this.sessions.delete(session.id);
+      for (const task of session.taskHistory) {
+        this.taskSessionIndex.delete(task.id);
+      }
+    }
+    return expired;
+  }
+
+  private permissionForIntent(intentHint: IntentHint): Permission {
+    return intentHint === 'chat' ? 'chat' : 'run_task';
+  }
+
+  private denyUnlessPermitted(role: UserRole, permission: Permission): BotResponse | null {
+    if (hasPermission(role, permission)) {
+      return null;
+    }
+    return {
+      text: `🚫 当前角色 \`${role}\` 无权执行此操作（需要 \`${minimumRoleFor(permission)}\` 及以上权限）。`,
+    };
+  }
+
+  exportSessions(): PersistedSession[] {
+    return Array.from(this.sessions.values()).map(session => ({
+      id: session.id,
+      userId: session.userId,
+      chatId: session.chatId,
+      createdAt: session.createdAt.toISOString(),
+      lastActivityAt: session.lastActivityAt.toISOString(),
+      taskIds: session.taskHistory.map(task => task.id),
+      context: session.context,
+    }));
+  }
+
+  restoreSessions(raw: unknown, resolveTask: (taskId: string) => TaskInfo | undefined): void {
+    if (!Array.isArray(raw)) {
+      return;
+    }
+
+    for (const item of raw as Array<Partial<PersistedSession>>) {
+      if (!item || typeof item.id !== 'string' || typeof item.userId !== 'string' || typeof item.chatId !== 'string') {
+        continue;
+      }
+
+      const taskHistory = (Array.isArray(item.taskIds) ? item.taskIds : [])
+        .map(taskId => resolveTask(taskId))
+        .filter((task): task is TaskInfo => Boolean(task))
+        .slice(-this.MAX_HISTORY);
+
+      this.sessions.set(item.id, {
+        id: item.id,
+        userId: item.userId,
+        chatId: item.chatId,
+        createdAt: reviveDate(item.createdAt) || new Date(),
+        lastActivityAt: reviveDate(item.lastActivityAt) || new Date(),
+        taskHistory,
+        context: item.context && typeof item.context === 'object' ? item.context : {},
+      });
+      for (const task of taskHistory) {
+        this.taskSessionIndex.set(task.id, item.id);
+      }
+    }
+  }
+
   private extractSenderId(event: FeishuMessageEvent): string {
     const sender = event.event?.sender?.sender_id;
     return sender?.user_id || sender?.open_id || sender?.union_id || '';
@@ -250,6 +675,10 @@ export class MessageHandler {
       return '';
     }
 
+    if (message.message_type === 'post') {
+      return parsePostContent(message.content).text;
+    }
+
     try {
       const content = typeof message.content === 'string'
         ? JSON.parse(message.content)
@@ -289,7 +718,7 @@ export class MessageHandler {
       }
     }
     text = text.replace(/@(?:opencode|bot|机器人)/gi, ' ');
-    text = text.replace(/\s+/g, ' ').trim();
+    text = this.normalizeCommandWhitespace(text);
 
     if (!text) {
       return null;
@@ -299,7 +728,7 @@ export class MessageHandler {
       return text;
     }
 
-    const prefixed = text.match(/^\/?(?:opencode|oc)\s+(.+)$/i);
+    const prefixed = text.match(/^\/?(?:opencode|oc)\s+([\s\S]+)$/i);
     if (prefixed?.[1]) {
       return `!${prefixed[1].trim()}`;
     }
@@ -307,6 +736,21 @@ export class MessageHandler {
     return text;
   }
 
+  private normalizeCommandWhitespace(text: string): string {
+    // Fenced code (from rich text posts) keeps its indentation; elsewhere collapse spaces but keep line breaks.
+    return text
+      .split(/(```[\s\S]*?```)/g)
+      .map((segment, index) => (index % 2 === 1
+        ? segment
+        : segment
+          .split('\n')
+          .map(line => line.replace(/\s+/g, ' ').trim())
+          .join('\n')))
+      .join('')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+  }
+
   private handleHelp(): BotResponse {
     return {
       text: [
@@ -314,10 +758,23 @@ export class MessageHandler {
         '• `!help` / `!h` 查看帮助',
         '• `!status` / `!s` 查看系统状态',
         '• `!history` / `!hist` 查看历史任务',
+        '• `!tasks [all] [--chat <群聊ID>] [--user <用户ID>]` 查看运行中、排队中和最近的任务（筛选需 admin）',
+        '• `!task [任务ID]` 查看任务状态、模型、耗时和退出码',
         '• `!clear` / `!c` 清空会话历史',
+        '• `!cancel [任务ID|all]` 取消当前会话最近的任务 / 指定任务 / 全部任务',
+        '• `!retry [任务ID]` 按原任务内容、附件和会话重新执行（默认当前会话最近结束的任务）',
+        '• `!rerun <任务ID> --model <模型>` 换一个模型重新执行，便于对比结果（admin）',
+        '• `!continue <任务ID>` 在指定任务的会话、模型和项目目录下继续对话',
+        '• `!resume [任务ID|all]` 重新执行因服务重启而中断的任务',
+        '• `!output [任务ID] [md|log|events]` 以文件形式获取任务的完整输出（默认当前会话最近的任务）',
+        '• `!approve <任务ID>` / `!reject <任务ID>` 批准或拒绝待审批的高风险任务（admin）',
+        '• `!patch [任务ID]` 以文件形式获取任务改动的完整补丁',
+        '• `!branch merge|keep|discard [任务ID]` 合并 / 保留 / 丢弃任务的隔离分支',
         '• `/new` 或 `!new` 新开会话',
         '• `/model list|current|reset|<model>` 切换会话模型',
         '• `/notify current|quiet|normal|debug` 设置推送模式',
+        '• `/project list|current|reset|bind <路径>` 切换会话的项目目录',
+        '• `/schedule add <cron> <任务>` / `/schedule list` / `/schedule rm <ID>` 管理本群的定时任务',
         '• `/agent current|execute|guide` 设置“代执行优先”偏好',
         '• `!sendfile <path>` 发送本地文件到当前会话',
         '• 直接发任务文本（群聊请 @机器人）',
@@ -341,6 +798,173 @@ export class MessageHandler {
     };
   }
 
+  private handleCancel(session: SessionInfo, rawCommand: string): BotResponse {
+    const arg = rawCommand.replace(/^[/!]cancel\s*/i, '').trim();
+    if (arg.toLowerCase() === 'all') {
+      return { cancelCommand: { target: 'all' } };
+    }
+
+    if (arg) {
+      return { cancelCommand: { target: 'task', taskId: this.trimSurroundingQuotes(arg) } };
+    }
+
+    const latest = [...session.taskHistory]
+      .reverse()
+      .find(task => task.status === 'running' || task.status === 'pending');
+    if (!latest) {
+      return { text: '当前会话没有进行中或排队中的任务。' };
+    }
+
+    return { cancelCommand: { target: 'task', taskId: latest.id } };
+  }
+
+  private handleResume(rawCommand: string): BotResponse {
+    const arg = rawCommand.replace(/^[/!]resume\s*/i, '').trim();
+    if (!arg || arg.toLowerCase() === 'all') {
+      return { resumeCommand: { target: 'all' } };
+    }
+    return { resumeCommand: { target: 'task', taskId: this.trimSurroundingQuotes(arg) } };
+  }
+
+  private handleOutput(session: SessionInfo, rawCommand: string): BotResponse {
+    const args = rawCommand.replace(/^[/!]output\s*/i, '').trim().split(/\s+/).filter(Boolean);
+    let format: TranscriptFormat | undefined;
+    let taskId = '';
+    for (const arg of args) {
+      const lower = arg.toLowerCase();
+      if (lower === 'md' || lower === 'log' || lower === 'events') {
+        format = lower;
+      } else {
+        taskId = this.trimSurroundingQuotes(arg);
+      }
+    }
+
+    if (taskId) {
+      return { outputCommand: { taskId, format } };
+    }
+
+    const latest = session.taskHistory[session.taskHistory.length - 1];
+    if (!latest) {
+      return { text: '当前会话还没有任务。' };
+    }
+    return { outputCommand: { taskId: latest.id, format } };
+  }
+
+  private handleRetry(role: UserRole, session: SessionInfo, rawCommand: string): BotResponse {
+    const isRerun = /^[/!]rerun\b/i.test(rawCommand);
+    const args = rawCommand.replace(/^[/!](?:retry|rerun)\s*/i, '').trim().split(/\s+/).filter(Boolean);
+    let taskId = '';
+    let model: string | undefined;
+    for (let index = 0; index < args.length; index += 1) {
+      const arg = args[index]!;
+      if (arg === '--model' && args[index + 1]) {
+        model = args[++index];
+      } else if (!taskId) {
+        taskId = this.trimSurroundingQuotes(arg);
+      }
+    }
+
+    if (isRerun && (!taskId || !model)) {
+      return { text: '用法：`!rerun <任务ID> --model <模型>`' };
+    }
+    if (model) {
+      const modelDenied = this.denyUnlessPermitted(role, 'change_model');
+      if (modelDenied) {
+        return modelDenied;
+      }
+    }
+
+    if (!taskId) {
+      const latest = [...session.taskHistory]
+        .reverse()
+        .find(task => task.status !== 'running' && task.status !== 'pending');
+      if (!latest) {
+        return { text: '当前会话没有可重试的任务。' };
+      }
+      taskId = latest.id;
+    }
+    return { retryCommand: { taskId, model } };
+  }
+
+  private handleTasks(role: UserRole, rawCommand: string): BotResponse {
+    const args = rawCommand.replace(/^[/!]tasks\s*/i, '').trim().split(/\s+/).filter(Boolean);
+    if (args.length === 0) {
+      return { tasksCommand: {} };
+    }
+
+    const request: TasksCommandRequest = {};
+    for (let index = 0; index < args.length; index += 1) {
+      const arg = args[index]!.toLowerCase();
+      if (arg === 'all') {
+        request.allChats = true;
+      } else if (arg === '--chat' && args[index + 1]) {
+        request.chatId = args[++index];
+      } else if (arg === '--user' && args[index + 1]) {
+        request.userId = args[++index];
+      } else {
+        return { text: '用法：`!tasks [all] [--chat <群聊ID>] [--user <用户ID>]`' };
+      }
+    }
+    // Looking beyond the current chat exposes other people's requests.
+    return this.denyUnlessPermitted(role, 'manage_tasks') || { tasksCommand: request };
+  }
+
+  private handleTaskDetail(session: SessionInfo, rawCommand: string): BotResponse {
+    const arg = rawCommand.replace(/^[/!]task\s*/i, '').trim();
+    if (arg) {
+      return { taskDetailCommand: { taskId: this.trimSurroundingQuotes(arg) } };
+    }
+
+    const latest = session.taskHistory[session.taskHistory.length - 1];
+    if (!latest) {
+      return { text: '用法：`!task <任务ID>`' };
+    }
+    return { taskDetailCommand: { taskId: latest.id } };
+  }
+
+  private handleApproval(rawCommand: string): BotResponse {
+    const match = rawCommand.match(/^[/!](approve|reject)\s*(.*)$/i);
+    const action = match?.[1]?.toLowerCase() === 'reject' ? 'reject' : 'approve';
+    const taskId = this.trimSurroundingQuotes((match?.[2] || '').trim());
+    if (!taskId) {
+      return { text: `用法：\`!${action} <任务ID>\`` };
+    }
+    return { approvalCommand: { action, taskId } };
+  }
+
+  private handlePatch(session: SessionInfo, rawCommand: string): BotResponse {
+    const arg = rawCommand.replace(/^[/!]patch\s*/i, '').trim();
+    if (arg) {
+      return { patchCommand: { taskId: this.trimSurroundingQuotes(arg) } };
+    }
+
+    const latest = [...session.taskHistory].reverse().find(task => task.changes);
+    if (!latest) {
+      return { text: '当前会话没有修改过文件的任务。' };
+    }
+    return { patchCommand: { taskId: latest.id } };
+  }
+
+  private handleBranch(session: SessionInfo, rawCommand: string): BotResponse {
+    const [actionArg = '', taskArg = ''] = rawCommand.replace(/^[/!]branch\s*/i, '').trim().split(/\s+/);
+    const action = actionArg.toLowerCase();
+    if (action !== 'merge' && action !== 'keep' && action !== 'discard') {
+      return { text: '用法：`!branch merge|keep|discard [任务ID]`' };
+    }
+
+    if (taskArg) {
+      return { worktreeCommand: { action, taskId: this.trimSurroundingQuotes(taskArg) } };
+    }
+
+    const latest = [...session.taskHistory]
+      .reverse()
+      .find(task => task.worktree?.state === 'pending');
+    if (!latest) {
+      return { text: '当前会话没有待处理的任务分支。' };
+    }
+    return { worktreeCommand: { action, taskId: latest.id } };
+  }
+
   private trimSurroundingQuotes(value: string): string {
     if ((value.startsWith('"') && value.endsWith('"')) || (value.startsWith("'") && value.endsWith("'"))) {
       return value.substring(1, value.length - 1);
@@ -408,6 +1032,73 @@ export class MessageHandler {
     return { action: 'set', model: arg };
   }
 
+  private extractProjectCommand(input: string): ProjectCommandRequest | null {
+    const text = input.trim();
+    if (!text) {
+      return null;
+    }
+
+    const match = text.match(/^[/!]project(?:\s+(.+))?$/i);
+    if (!match) {
+      return null;
+    }
+
+    const arg = (match[1] || '').trim();
+    if (!arg || /^current$/i.test(arg)) {
+      return { action: 'current' };
+    }
+
+    if (/^list$/i.test(arg)) {
+      return { action: 'list' };
+    }
+
+    if (/^reset$/i.test(arg)) {
+      return { action: 'reset' };
+    }
+
+    const path = arg.replace(/^bind\s*/i, '');
+    return { action: 'bind', path: path ? this.trimSurroundingQuotes(path) : undefined };
+  }
+
+  /**
+   * `/schedule add <cron> <task>` takes the cron as five fields, a single
+   * `@daily`-style macro, or a quoted string.
+   */
+  private extractScheduleCommand(input: string): ScheduleCommandRequest | null {
+    const match = input.trim().match(/^[/!]schedule(?:\s+([\s\S]+))?$/i);
+    if (!match) {
+      return null;
+    }
+
+    const arg = (match[1] || '').trim();
+    if (!arg || /^(?:list|ls)$/i.test(arg)) {
+      return { action: 'list' };
+    }
+
+    const removeMatch = arg.match(/^(?:rm|remove|del|delete)(?:\s+(\S+))?$/i);
+    if (removeMatch) {
+      return { action: 'rm', jobId: removeMatch[1] };
+    }
+
+    const addMatch = arg.match(/^add(?:\s+([\s\S]+))?$/i);
+    if (!addMatch) {
+      return { action: 'add' };
+    }
+
+    const rest = (addMatch[1] || '').trim();
+    const quoted = rest.match(/^(["'“])(.+?)["'”]\s+([\s\S]+)$/);
+    if (quoted) {
+      return { action: 'add', cron: quoted[2].trim(), command: quoted[3].trim() };
+    }
+
+    const split = rest.startsWith('@')
+      ? rest.match(/^(\S+)\s+([\s\S]+)$/)
+      : rest.match(/^(\S+(?:\s+\S+){4})\s+([\s\S]+)$/);
+    return split
+      ? { action: 'add', cron: split[1], command: split[2].trim() }
+      : { action: 'add' };
+  }
+
   private extractNotifyCommand(input: string): NotifyCommandRequest | null {
     const text = input.trim();
     if (!text) {
@@ -561,6 +1252,77 @@ export class MessageHandler {
     return false;
   }
 
+  private buildTaskActionRow(task: TaskInfo): Record<string, unknown> {
+    const taskId = task.id;
+    let buttons: CardButton[];
+    if (task.status === 'running' || task.status === 'pending') {
+      buttons = [{ text: '⏹️ 取消任务', type: 'danger', value: { action: 'cancel', taskId } }];
+    } else if (task.status === 'completed') {
+      buttons = [
+        { text: '💬 继续对话', type: 'primary', value: { action: 'continue', taskId } },
+        { text: '📄 完整输出', value: { action: 'output', taskId } },
+        { text: '🔁 重新执行', value: { action: 'retry', taskId } },
+      ];
+    } else {
+      buttons = [
+        { text: '🔁 重新执行', type: 'primary', value: { action: 'retry', taskId } },
+        { text: '📄 完整输出', value: { action: 'output', taskId } },
+      ];
+    }
+    if (task.changes && task.status !== 'running' && task.status !== 'pending') {
+      buttons.push({ text: '🧩 下载补丁', value: { action: 'patch', taskId } });
+    }
+    return buildActionRow(buttons);
+  }
+
+  private formatChangedFiles(files: TaskChangedFile[]): string {
+    const shown = files.slice(0, this.CHANGED_FILES_MAX_COUNT).map(file => (
+      file.binary
+        ? `• \`${file.path}\`（二进制）`
+        : `• \`${file.path}\` +${file.added} -${file.removed}`
+    ));
+    const added = files.reduce((sum, file) => sum + file.added, 0);
+    const removed = files.reduce((sum, file) => sum + file.removed, 0);
+    const more = files.length > shown.length ? `\n... 还有 ${files.length - shown.length} 个文件` : '';
+    return `${shown.join('\n')}${more}\n共 ${files.length} 个文件，+${added} -${removed}`;
+  }
+
+  private collectCardText(node: unknown): string[] {
+    if (Array.isArray(node)) {
+      return node.flatMap(item => this.collectCardText(item));
+    }
+    if (!node || typeof node !== 'object') {
+      return [];
+    }
+
+    const texts: string[] = [];
+    for (const [key, value] of Object.entries(node as Record<string, unknown>)) {
+      if (typeof value === 'string') {
+        if ((key === 'text' || key === 'content' || key === 'title') && value.trim()) {
+          texts.push(value.trim());
+        }
+        continue;
+      }
+      texts.push(...this.collectCardText(value));
+    }
+    return texts;
+  }
+
+  private collectProgressLines(progress: string): string[] {
+    const lines = this.normalizeOutput(progress)
+      .split('\n')
+      .map(line => line.trim())
+      .filter(Boolean);
+    const uniqueLines: string[] = [];
+
+    for (const line of lines) {
+      if (!uniqueLines.includes(line)) {
+        uniqueLines.push(line);
+      }
+    }
+    return uniqueLines;
+  }
+
   private normalizeOutput(output: string): string {
     const withoutAnsi = output
       .replace(/\u001b\[[0-9;]*m/g, '')
@@ -847,9 +1609,29 @@ export class MessageHandler {
       }
     }
 
+    if (task.changes && task.changes.files.length > 0) {
+      const overlapNote = task.changes.mayIncludeOtherTasks
+        ? '\n_同一仓库中有其他任务同时运行，以上改动可能包含它们的修改。_'
+        : '';
+      elements.push(
+        { tag: 'hr' },
+        {
+          tag: 'div',
+          text: {
+            tag: 'lark_md',
+            content: `**变更文件**\n${this.formatChangedFiles(task.changes.files)}${overlapNote}`,
+          },
+        },
+      );
+    }
+
+    elements.push(this.buildTaskActionRow(task));
+
     return {
       config: {
         wide_screen_mode: true,
+        // Lets the bridge patch this card over the live progress card of the same task.
+        update_multi: true,
       },
       header: {
         template: 'green',
@@ -1104,6 +1886,17 @@ export class MessageHandler {
     };
   }
 
+  private formatPartialOutput(task: TaskInfo): string {
+    const normalized = this.normalizeOutput(task.output.join(''));
+    if (!normalized) {
+      return '';
+    }
+    if (normalized.length <= this.PARTIAL_OUTPUT_MAX_LENGTH) {
+      return normalized;
+    }
+    return `...${normalized.substring(normalized.length - this.PARTIAL_OUTPUT_MAX_LENGTH)}`;
+  }
+
   private formatCancelReason(reason: string): string {
     if (reason === 'timeout_no_progress') {
       return '长时间无进度，已自动取消';
@@ -1114,17 +1907,14 @@ export class MessageHandler {
     if (reason === 'user_request') {
       return '用户取消';
     }
+    if (reason === 'approval_rejected') {
+      return '审批被拒绝';
+    }
     return reason;
   }
 
-  private handleStatus(): BotResponse {
-    return {
-      text: [
-        '✅ 系统状态：正常',
-        `• 活跃会话：${this.sessions.size}`,
-        `• 内存占用：${Math.round(process.memoryUsage().heapUsed / 1024 / 1024)}MB`,
-      ].join('\n'),
-    };
+  getActiveSessionCount(): number {
+    return this.sessions.size;
   }
 
   private handleHistory(session: SessionInfo): BotResponse {
@@ -1141,7 +1931,7 @@ export class MessageHandler {
           : task.status === 'cancelled'
             ? '⏹️'
             : '⏳';
-      return `${statusEmoji} \`${task.command}\`（${task.status}）`;
+      return `${statusEmoji} \`${task.id}\` ${task.command}（${task.status}）`;
     }).join('\n');
 
     return {
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { CronExpression } from './cron.js';
+
+// Saturday, 17 October 2026, 10:30 local time.
+const BASE = new Date(2026, 9, 17, 10, 30);
+
+function nextRun(expression: string, after: Date = BASE): Date | undefined {
+  return CronExpression.parse(expression).next(after);
+}
+
+describe('CronExpression.parse', () => {
+  it('normalises whitespace in the stored source', () => {
+    expect(CronExpression.parse('  0   9 * *  1-5 ').source).toBe('0 9 * * 1-5');
+  });
+
+  it('keeps macros as written', () => {
+    expect(CronExpression.parse('@Daily').source).toBe('@Daily');
+  });
+
+  it.each([
+    ['0 9 * *', '5 个字段'],
+    ['0 9 * * * *', '5 个字段'],
+    ['@fortnightly', '5 个字段'],
+    ['60 * * * *', '超出范围（0-59）'],
+    ['0 24 * * *', '超出范围（0-23）'],
+    ['0 0 0 * *', '超出范围（1-31）'],
+    ['0 0 * 13 *', '超出范围（1-12）'],
+    ['0 0 * * 8', '超出范围（0-7）'],
+    ['0 0 * * funday', '超出范围'],
+    ['*/0 * * * *', '步长无效'],
+    ['*/x * * * *', '步长无效'],
+    ['30-10 * * * *', '范围无效'],
+    ['1/2/3 * * * *', '无法解析'],
+    ['1,,2 * * * *', '无法解析'],
+  ])('rejects `%s`', (expression, message) => {
+    expect(() => CronExpression.parse(expression)).toThrow(message);
+  });
+});
+
+describe('CronExpression.next', () => {
+  it.each([
+    ['*/15 * * * *', new Date(2026, 9, 17, 10, 45)],
+    ['5/20 * * * *', new Date(2026, 9, 17, 10, 45)],
+    ['0,30 * * * *', new Date(2026, 9, 17, 11, 0)],
+    ['0 9 * * 1-5', new Date(2026, 9, 19, 9, 0)],
+    ['0 9 * * mon-fri', new Date(2026, 9, 19, 9, 0)],
+    ['0 0 * * 7', new Date(2026, 9, 18, 0, 0)],
+    ['@hourly', new Date(2026, 9, 17, 11, 0)],
+    ['@daily', new Date(2026, 9, 18, 0, 0)],
+    ['@weekly', new Date(2026, 9, 18, 0, 0)],
+    ['@monthly', new Date(2026, 10, 1, 0, 0)],
+    ['@yearly', new Date(2027, 0, 1, 0, 0)],
+    ['0 12 * jan-mar sun', new Date(2027, 0, 3, 12, 0)],
+    ['0 0 29 2 *', new Date(2028, 1, 29, 0, 0)],
+    ['0 8-18/4 * * *', new Date(2026, 9, 17, 12, 0)],
+  ])('`%s` next fires at %s', (expression, expected) => {
+    expect(nextRun(expression)).toEqual(expected);
+  });
+
+  it('matches either day field when both are restricted', () => {
+    expect(nextRun('30 8 1,15 * mon')).toEqual(new Date(2026, 9, 19, 8, 30));
+    expect(nextRun('30 8 18 * fri')).toEqual(new Date(2026, 9, 18, 8, 30));
+  });
+
+  it('is strictly after the given time', () => {
+    expect(nextRun('30 10 * * *')).toEqual(new Date(2026, 9, 18, 10, 30));
+  });
+
+  it('ignores seconds in the starting time', () => {
+    expect(nextRun('* * * * *', new Date(2026, 9, 17, 10, 30, 45))).toEqual(new Date(2026, 9, 17, 10, 31));
+  });
+
+  it('rolls over month and year boundaries', () => {
+    expect(nextRun('0 0 1 * *', new Date(2026, 11, 31, 23, 59))).toEqual(new Date(2027, 0, 1, 0, 0));
+  });
+
+  it('returns undefined for dates that never exist', () => {
+    expect(nextRun('0 0 31 2 *')).toBeUndefined();
+    expect(nextRun('0 0 31 apr *')).toBeUndefined();
+  });
+});
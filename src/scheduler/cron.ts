@@ -0,0 +1,152 @@
+interface CronField {
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+const FIELDS: CronField[] = [
+  { min: 0, max: 59 },
+  { min: 0, max: 23 },
+  { min: 1, max: 31 },
+  { min: 1, max: 12, names: ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'] },
+  { min: 0, max: 7, names: ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] },
+];
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+// Far enough to cover the rarest valid schedule (Feb 29 on a given weekday).
+const SEARCH_LIMIT_MS = 8 * 366 * 24 * 60 * 60 * 1000;
+
+/**
+ * Standard five-field cron expression (minute hour day-of-month month
+ * day-of-week), evaluated in the server's local time zone. Supports lists,
+ * ranges, steps, month/weekday names and the usual `@daily`-style macros.
+ * As in Vixie cron, when both day fields are restricted a day matches if
+ * either one does.
+ */
+export class CronExpression {
+  readonly source: string;
+  private readonly minutes: Set<number>;
+  private readonly hours: Set<number>;
+  private readonly days: Set<number>;
+  private readonly months: Set<number>;
+  private readonly weekdays: Set<number>;
+  private readonly dayRestricted: boolean;
+  private readonly weekdayRestricted: boolean;
+
+  private constructor(source: string, fields: string[]) {
+    this.source = source;
+    const sets = fields.map((field, index) => parseField(field, FIELDS[index]));
+    [this.minutes, this.hours, this.days, this.months, this.weekdays] = sets;
+    // 7 is an alias for Sunday.
+    if (this.weekdays.delete(7)) {
+      this.weekdays.add(0);
+    }
+    this.dayRestricted = fields[2] !== '*' && fields[2] !== '?';
+    this.weekdayRestricted = fields[4] !== '*' && fields[4] !== '?';
+  }
+
+  /** Throws with a readable message when the expression is invalid. */
+  static parse(expression: string): CronExpression {
+    const source = expression.trim().replace(/\s+/g, ' ');
+    const expanded = MACROS[source.toLowerCase()] || source;
+    const fields = expanded.split(' ');
+    if (fields.length !== FIELDS.length) {
+      throw new Error(`cron 表达式需要 5 个字段（分 时 日 月 周），实际为 ${fields.length} 个`);
+    }
+    return new CronExpression(source, fields);
+  }
+
+  /** First matching minute strictly after `after`, or undefined if none is reachable. */
+  next(after: Date): Date | undefined {
+    const candidate = new Date(after.getTime());
+    candidate.setSeconds(0, 0);
+    candidate.setMinutes(candidate.getMinutes() + 1);
+    const limit = after.getTime() + SEARCH_LIMIT_MS;
+
+    while (candidate.getTime() <= limit) {
+      if (!this.months.has(candidate.getMonth() + 1)) {
+        candidate.setMonth(candidate.getMonth() + 1, 1);
+        candidate.setHours(0, 0);
+        continue;
+      }
+      if (!this.matchesDay(candidate)) {
+        candidate.setDate(candidate.getDate() + 1);
+        candidate.setHours(0, 0);
+        continue;
+      }
+      if (!this.hours.has(candidate.getHours())) {
+        candidate.setHours(candidate.getHours() + 1, 0);
+        continue;
+      }
+      if (!this.minutes.has(candidate.getMinutes())) {
+        candidate.setMinutes(candidate.getMinutes() + 1);
+        continue;
+      }
+      return candidate;
+    }
+    return undefined;
+  }
+
+  private matchesDay(date: Date): boolean {
+    const dayMatch = this.days.has(date.getDate());
+    const weekdayMatch = this.weekdays.has(date.getDay());
+    if (this.dayRestricted && this.weekdayRestricted) {
+      return dayMatch || weekdayMatch;
+    }
+    return dayMatch && weekdayMatch;
+  }
+}
+
+function parseField(field: string, spec: CronField): Set<number> {
+  const values = new Set<number>();
+  for (const part of field.split(',')) {
+    const [rangePart, stepPart, ...rest] = part.split('/');
+    if (rest.length > 0 || !rangePart) {
+      throw new Error(`无法解析 cron 字段 \`${field}\``);
+    }
+
+    const step = stepPart === undefined ? 1 : Number(stepPart);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`cron 字段 \`${field}\` 的步长无效`);
+    }
+
+    let start: number;
+    let end: number;
+    if (rangePart === '*' || rangePart === '?') {
+      start = spec.min;
+      end = spec.max;
+    } else {
+      const [from, to] = rangePart.split('-');
+      start = parseValue(from, spec, field);
+      // `5/15` means "from 5 to the end, every 15".
+      end = to !== undefined ? parseValue(to, spec, field) : stepPart !== undefined ? spec.max : start;
+    }
+
+    if (start > end) {
+      throw new Error(`cron 字段 \`${field}\` 的范围无效`);
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+  return values;
+}
+
+function parseValue(raw: string | undefined, spec: CronField, field: string): number {
+  const text = (raw || '').toLowerCase();
+  const nameIndex = spec.names?.indexOf(text) ?? -1;
+  const value = nameIndex >= 0 ? nameIndex + spec.min : /^\d+$/.test(text) ? Number(text) : NaN;
+  if (!Number.isInteger(value) || value < spec.min || value > spec.max) {
+    throw new Error(`cron 字段 \`${field}\` 的取值超出范围（${spec.min}-${spec.max}）`);
+  }
+  return value;
+}
@@ -0,0 +1,197 @@
+import { EventEmitter } from 'events';
+import type { NotificationMode } from '../types.js';
+import { reviveDate, type StateStore } from '../storage/state-store.js';
+import { logger } from '../utils/logger.js';
+import { CronExpression } from './cron.js';
+
+export interface ScheduledJob {
+  id: string;
+  cron: string;
+  command: string;
+  chatId: string;
+  creatorId: string;
+  /** Every id Feishu gave for the creator, so role lists keyed by any of them still match. */
+  creatorIds?: string[];
+  model?: string;
+  notifyMode: NotificationMode;
+  workingDir?: string;
+  createdAt: Date;
+  nextRunAt?: Date;
+  lastRunAt?: Date;
+  lastTaskId?: string;
+}
+
+export type NewScheduledJob = Omit<ScheduledJob, 'id' | 'createdAt' | 'nextRunAt' | 'lastRunAt' | 'lastTaskId'>;
+
+/**
+ * Keeps cron jobs created from chat and emits `job:due` when one fires.
+ * Runs missed while the bridge was down are skipped, not replayed.
+ */
+export class TaskScheduler extends EventEmitter {
+  private static readonly SECTION = 'scheduledJobs';
+  // Re-check at least this often so clock changes and sleep are picked up.
+  private static readonly MAX_TIMER_DELAY_MS = 60 * 60 * 1000;
+  private readonly store: StateStore;
+  private jobs = new Map<string, ScheduledJob>();
+  private expressions = new Map<string, CronExpression>();
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(store: StateStore) {
+    super();
+    this.store = store;
+  }
+
+  restore(): void {
+    const raw = this.store.get<unknown[]>(TaskScheduler.SECTION);
+    const now = new Date();
+
+    for (const item of Array.isArray(raw) ? raw : []) {
+      const job = this.reviveJob(item);
+      if (!job) {
+        continue;
+      }
+
+      try {
+        const expression = CronExpression.parse(job.cron);
+        if (job.nextRunAt && job.nextRunAt.getTime() < now.getTime()) {
+          logger.info(`Skipping missed run of scheduled job ${job.id} at ${job.nextRunAt.toISOString()}`);
+        }
+        job.nextRunAt = expression.next(now);
+        this.jobs.set(job.id, job);
+        this.expressions.set(job.id, expression);
+      } catch (error) {
+        logger.warn(`Dropping scheduled job ${job.id} with invalid cron "${job.cron}"`, error);
+      }
+    }
+
+    this.store.register(TaskScheduler.SECTION, () => Array.from(this.jobs.values()));
+  }
+
+  start(): void {
+    this.arm();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /** Throws when the cron expression is invalid or never fires. */
+  add(input: NewScheduledJob): ScheduledJob {
+    const expression = CronExpression.parse(input.cron);
+    const nextRunAt = expression.next(new Date());
+    if (!nextRunAt) {
+      throw new Error('该 cron 表达式不会再触发');
+    }
+
+    const job: ScheduledJob = {
+      ...input,
+      id: this.generateJobId(),
+      cron: expression.source,
+      createdAt: new Date(),
+      nextRunAt,
+    };
+    this.jobs.set(job.id, job);
+    this.expressions.set(job.id, expression);
+    this.store.markDirty();
+    this.arm();
+    return job;
+  }
+
+  get(jobId: string): ScheduledJob | undefined {
+    return this.jobs.get(jobId);
+  }
+
+  listForChat(chatId: string): ScheduledJob[] {
+    return Array.from(this.jobs.values())
+      .filter(job => job.chatId === chatId)
+      .sort((a, b) => (a.nextRunAt?.getTime() ?? Infinity) - (b.nextRunAt?.getTime() ?? Infinity));
+  }
+
+  countForChat(chatId: string): number {
+    return this.listForChat(chatId).length;
+  }
+
+  remove(jobId: string): boolean {
+    const removed = this.jobs.delete(jobId);
+    this.expressions.delete(jobId);
+    if (removed) {
+      this.store.markDirty();
+      this.arm();
+    }
+    return removed;
+  }
+
+  recordRun(jobId: string, taskId: string): void {
+    const job = this.jobs.get(jobId);
+    if (job) {
+      job.lastTaskId = taskId;
+      this.store.markDirty();
+    }
+  }
+
+  private arm(): void {
+    this.stop();
+    const nextTimes = Array.from(this.jobs.values())
+      .map(job => job.nextRunAt?.getTime())
+      .filter((time): time is number => time !== undefined);
+    if (nextTimes.length === 0) {
+      return;
+    }
+
+    const delay = Math.min(Math.max(Math.min(...nextTimes) - Date.now(), 0), TaskScheduler.MAX_TIMER_DELAY_MS);
+    this.timer = setTimeout(() => this.tick(), delay);
+    this.timer.unref();
+  }
+
+  private tick(): void {
+    this.timer = null;
+    const now = new Date();
+
+    for (const job of this.jobs.values()) {
+      if (!job.nextRunAt || job.nextRunAt.getTime() > now.getTime()) {
+        continue;
+      }
+
+      job.lastRunAt = now;
+      job.nextRunAt = this.expressions.get(job.id)?.next(now);
+      this.store.markDirty();
+      this.emit('job:due', { job });
+    }
+
+    this.arm();
+  }
+
+  private reviveJob(raw: unknown): ScheduledJob | undefined {
+    if (!raw || typeof raw !== 'object') {
+      return undefined;
+    }
+
+    const record = raw as Record<string, unknown>;
+    if (
+      typeof record.id !== 'string'
+      || typeof record.cron !== 'string'
+      || typeof record.command !== 'string'
+      || typeof record.chatId !== 'string'
+    ) {
+      return undefined;
+    }
+
+    return {
+      ...(record as unknown as ScheduledJob),
+      createdAt: reviveDate(record.createdAt) || new Date(),
+      nextRunAt: reviveDate(record.nextRunAt),
+      lastRunAt: reviveDate(record.lastRunAt),
+    };
+  }
+
+  private generateJobId(): string {
+    let jobId: string;
+    do {
+      jobId = `job_${Math.random().toString(36).substring(2, 8)}`;
+    } while (this.jobs.has(jobId));
+    return jobId;
+  }
+}
@@ -0,0 +1,107 @@
+import { config } from '../config.js';
+import type { FeishuMessageEvent, Permission, UserRole } from '../types.js';
+import { logger } from '../utils/logger.js';
+import { hasPermission } from './permissions.js';
+
+export interface AccessDecision {
+  allowed: boolean;
+  reason: 'unrestricted' | 'user_allowed' | 'chat_allowed' | 'not_allowed';
+}
+
+export class AccessControl {
+  private readonly allowedUsers: Set<string>;
+  private readonly allowedChats: Set<string>;
+  private readonly roleUsers: Array<{ role: UserRole; ids: Set<string> }>;
+  private readonly defaultRole: UserRole;
+
+  constructor(options: {
+    allowedUsers: string[];
+    allowedChats: string[];
+    adminUsers: string[];
+    operatorUsers: string[];
+    viewerUsers: string[];
+    defaultRole: UserRole;
+  } = config.security) {
+    this.allowedUsers = this.toIdSet(options.allowedUsers);
+    this.allowedChats = this.toIdSet(options.allowedChats);
+    this.roleUsers = [
+      { role: 'admin', ids: this.toIdSet(options.adminUsers) },
+      { role: 'operator', ids: this.toIdSet(options.operatorUsers) },
+      { role: 'viewer', ids: this.toIdSet(options.viewerUsers) },
+    ];
+    this.defaultRole = options.defaultRole;
+  }
+
+  isRestricted(): boolean {
+    return this.allowedUsers.size > 0 || this.allowedChats.size > 0;
+  }
+
+  authorize(event: FeishuMessageEvent): AccessDecision {
+    if (!this.isRestricted()) {
+      return { allowed: true, reason: 'unrestricted' };
+    }
+
+    const senderIds = this.collectSenderIds(event);
+    if (senderIds.some(id => this.allowedUsers.has(id))) {
+      return { allowed: true, reason: 'user_allowed' };
+    }
+
+    const chatId = event.event?.message?.chat_id || '';
+    if (chatId && this.allowedChats.has(chatId)) {
+      return { allowed: true, reason: 'chat_allowed' };
+    }
+
+    logger.warn(
+      `Access denied: ${this.describeSender(event)}, chat_id=${chatId || 'unknown'}, `
+      + `message_type=${event.event?.message?.message_type || 'unknown'}`,
+    );
+    return { allowed: false, reason: 'not_allowed' };
+  }
+
+  resolveRole(event: FeishuMessageEvent): UserRole {
+    return this.roleForIds(this.collectSenderIds(event));
+  }
+
+  can(event: FeishuMessageEvent, permission: Permission): boolean {
+    return hasPermission(this.resolveRole(event), permission);
+  }
+
+  /**
+   * The allowlist and role checks of an incoming message, for a user known
+   * only by the ids recorded earlier (e.g. the creator of a scheduled job).
+   */
+  canUser(senderIds: string[], chatId: string, permission: Permission): boolean {
+    const allowed = !this.isRestricted()
+      || senderIds.some(id => this.allowedUsers.has(id))
+      || this.allowedChats.has(chatId);
+    return allowed && hasPermission(this.roleForIds(senderIds), permission);
+  }
+
+  describeSender(event: FeishuMessageEvent): string {
+    const sender = event.event?.sender?.sender_id;
+    return [
+      `open_id=${sender?.open_id || '-'}`,
+      `union_id=${sender?.union_id || '-'}`,
+      `user_id=${sender?.user_id || '-'}`,
+    ].join(', ');
+  }
+
+  collectSenderIds(event: FeishuMessageEvent): string[] {
+    const sender = event.event?.sender?.sender_id;
+    return [sender?.open_id, sender?.union_id, sender?.user_id]
+      .filter((id): id is string => typeof id === 'string' && id.trim().length > 0);
+  }
+
+  private roleForIds(senderIds: string[]): UserRole {
+    for (const { role, ids } of this.roleUsers) {
+      if (senderIds.some(id => ids.has(id))) {
+        return role;
+      }
+    }
+    return this.defaultRole;
+  }
+
+  private toIdSet(ids: string[]): Set<string> {
+    return new Set(ids.map(item => item.trim()).filter(Boolean));
+  }
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import type { Permission, UserRole } from '../types.js';
+import { hasPermission, minimumRoleFor } from './permissions.js';
+
+const ROLES: UserRole[] = ['viewer', 'operator', 'admin'];
+
+// Lowest role that holds each permission; every higher role inherits it.
+const EXPECTED_MINIMUM: Record<Permission, UserRole> = {
+  chat: 'viewer',
+  read_status: 'viewer',
+  read_history: 'viewer',
+  manage_session: 'viewer',
+  run_task: 'operator',
+  set_preference: 'operator',
+  bind_project: 'operator',
+  schedule_task: 'operator',
+  change_model: 'admin',
+  send_file: 'admin',
+  manage_tasks: 'admin',
+  approve_task: 'admin',
+};
+
+const PERMISSIONS = Object.keys(EXPECTED_MINIMUM) as Permission[];
+
+describe('hasPermission', () => {
+  it.each(ROLES.flatMap(role => PERMISSIONS.map(permission => [role, permission] as const)))(
+    '%s / %s',
+    (role, permission) => {
+      const granted = ROLES.indexOf(role) >= ROLES.indexOf(EXPECTED_MINIMUM[permission]);
+      expect(hasPermission(role, permission)).toBe(granted);
+    },
+  );
+});
+
+describe('minimumRoleFor', () => {
+  it.each(PERMISSIONS)('%s', permission => {
+    expect(minimumRoleFor(permission)).toBe(EXPECTED_MINIMUM[permission]);
+  });
+});
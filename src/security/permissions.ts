@@ -0,0 +1,40 @@
+import type { Permission, UserRole } from '../types.js';
+
+const VIEWER_PERMISSIONS: Permission[] = [
+  'chat',
+  'read_status',
+  'read_history',
+  'manage_session',
+];
+
+const OPERATOR_PERMISSIONS: Permission[] = [
+  ...VIEWER_PERMISSIONS,
+  'run_task',
+  'set_preference',
+  'bind_project',
+  'schedule_task',
+];
+
+const ADMIN_PERMISSIONS: Permission[] = [
+  ...OPERATOR_PERMISSIONS,
+  'change_model',
+  'send_file',
+  'manage_tasks',
+  'approve_task',
+];
+
+const ROLE_PERMISSIONS: Record<UserRole, ReadonlySet<Permission>> = {
+  viewer: new Set(VIEWER_PERMISSIONS),
+  operator: new Set(OPERATOR_PERMISSIONS),
+  admin: new Set(ADMIN_PERMISSIONS),
+};
+
+const ROLE_ORDER: UserRole[] = ['viewer', 'operator', 'admin'];
+
+export function hasPermission(role: UserRole, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role].has(permission);
+}
+
+export function minimumRoleFor(permission: Permission): UserRole {
+  return ROLE_ORDER.find(role => hasPermission(role, permission)) || 'admin';
+}
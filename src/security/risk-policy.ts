@@ -0,0 +1,52 @@
+import { config } from '../config.js';
+import { logger } from '../utils/logger.js';
+
+const DEFAULT_RISK_PATTERNS = [
+  String.raw`\brm\s+-[a-z]*(?:r[a-z]*f|f[a-z]*r)`,
+  String.raw`\bdrop\s+(?:table|database|schema)\b`,
+  String.raw`\btruncate\s+table\b`,
+  String.raw`\bgit\s+push\b.*(?:--force|\s-f\b)`,
+  String.raw`\bgit\s+reset\s+--hard\b`,
+  String.raw`\bsudo\b`,
+  String.raw`\bmkfs\b`,
+  String.raw`\bdd\s+if=`,
+  String.raw`\bchmod\s+-R\s+777\b`,
+  String.raw`\b(?:shutdown|reboot)\b`,
+];
+
+/**
+ * Flags task text that needs an approver before it may run. The execute
+ * policy prompt only asks the model to be careful; this is enforced by the
+ * bridge before the task reaches opencode.
+ */
+export class RiskPolicy {
+  private readonly enabled: boolean;
+  private readonly patterns: RegExp[];
+
+  constructor(options: { enabled: boolean; patterns: string[] } = config.approval) {
+    this.enabled = options.enabled;
+    const sources = options.patterns.length > 0 ? options.patterns : DEFAULT_RISK_PATTERNS;
+    this.patterns = sources.flatMap((source) => {
+      try {
+        return [new RegExp(source, 'i')];
+      } catch (error) {
+        logger.warn(`Ignoring invalid TASK_APPROVAL_PATTERNS entry: ${source}`, error);
+        return [];
+      }
+    });
+  }
+
+  /** Returns the matched text when the command needs approval. */
+  match(command: string): string | undefined {
+    if (!this.enabled) {
+      return undefined;
+    }
+    for (const pattern of this.patterns) {
+      const match = command.match(pattern);
+      if (match) {
+        return match[0];
+      }
+    }
+    return undefined;
+  }
+}
@@ -0,0 +1,156 @@
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import { config } from '../config.js';
+import type { StateBackendType } from '../types.js';
+import { logger } from '../utils/logger.js';
+
+type StateSnapshot = Record<string, unknown>;
+
+export interface StateBackend {
+  readonly name: StateBackendType;
+  load(): Promise<StateSnapshot>;
+  save(state: StateSnapshot): Promise<void>;
+}
+
+export class JsonFileStateBackend implements StateBackend {
+  readonly name = 'json' as const;
+  private readonly filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async load(): Promise<StateSnapshot> {
+    let raw: string;
+    try {
+      raw = await readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return {};
+      }
+      throw error;
+    }
+
+    const parsed = JSON.parse(raw) as unknown;
+    return parsed && typeof parsed === 'object' ? parsed as StateSnapshot : {};
+  }
+
+  async save(state: StateSnapshot): Promise<void> {
+    await mkdir(dirname(this.filePath), { recursive: true });
+    // Write to a sibling file first so a crash mid-write never truncates the last good state.
+    const tempPath = `${this.filePath}.tmp`;
+    await writeFile(tempPath, JSON.stringify(state), 'utf8');
+    await rename(tempPath, this.filePath);
+  }
+}
+
+export class MemoryStateBackend implements StateBackend {
+  readonly name = 'memory' as const;
+  private state: StateSnapshot = {};
+
+  async load(): Promise<StateSnapshot> {
+    return { ...this.state };
+  }
+
+  async save(state: StateSnapshot): Promise<void> {
+    this.state = { ...state };
+  }
+}
+
+/**
+ * Keeps named state sections in a backend. Owners register a snapshot
+ * function per section and call `markDirty()` after mutating; writes are
+ * debounced and serialized.
+ */
+export class StateStore {
+  private readonly backend: StateBackend;
+  private readonly flushDelayMs: number;
+  private readonly providers = new Map<string, () => unknown>();
+  private loaded: StateSnapshot = {};
+  private flushTimer: NodeJS.Timeout | undefined;
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(backend: StateBackend, flushDelayMs = 1000) {
+    this.backend = backend;
+    this.flushDelayMs = flushDelayMs;
+  }
+
+  get backendName(): StateBackendType {
+    return this.backend.name;
+  }
+
+  async load(): Promise<void> {
+    try {
+      this.loaded = await this.backend.load();
+      logger.info(`Loaded bridge state from ${this.backend.name} backend`);
+    } catch (error) {
+      logger.error(`Failed to load bridge state from ${this.backend.name} backend; starting empty`, error);
+      this.loaded = {};
+    }
+  }
+
+  get<T>(section: string): T | undefined {
+    return this.loaded[section] as T | undefined;
+  }
+
+  set(section: string, value: unknown): void {
+    this.loaded[section] = value;
+    this.markDirty();
+  }
+
+  register(section: string, snapshot: () => unknown): void {
+    this.providers.set(section, snapshot);
+  }
+
+  markDirty(): void {
+    if (this.flushTimer) {
+      return;
+    }
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = undefined;
+      void this.flush();
+    }, this.flushDelayMs);
+  }
+
+  async flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = undefined;
+    }
+
+    const state: StateSnapshot = { ...this.loaded };
+    for (const [section, snapshot] of this.providers) {
+      try {
+        state[section] = snapshot();
+      } catch (error) {
+        logger.warn(`Failed to snapshot state section ${section}`, error);
+      }
+    }
+    this.loaded = state;
+
+    this.writeChain = this.writeChain
+      .then(() => this.backend.save(state))
+      .catch((error: unknown) => {
+        logger.error(`Failed to persist bridge state to ${this.backend.name} backend`, error);
+      });
+    await this.writeChain;
+  }
+}
+
+export function createStateStore(): StateStore {
+  const backend: StateBackend = config.storage.backend === 'memory'
+    ? new MemoryStateBackend()
+    : new JsonFileStateBackend(config.storage.path);
+  return new StateStore(backend);
+}
+
+export function reviveDate(value: unknown): Date | undefined {
+  if (value instanceof Date) {
+    return value;
+  }
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    return undefined;
+  }
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
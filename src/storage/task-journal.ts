@@ -0,0 +1,90 @@
+import type { TaskInfo, TaskResponseMode } from '../types.js';
+import { reviveDate, type StateStore } from './state-store.js';
+
+export interface InterruptedTaskEntry {
+  taskId: string;
+  status: TaskInfo['status'];
+  command: string;
+  userId: string;
+  chatId: string;
+  messageId: string;
+  bridgeSessionId: string;
+  opencodeSessionId?: string;
+  model?: string;
+  executeFirst?: boolean;
+  readOnly?: boolean;
+  responseMode?: TaskResponseMode;
+  files: string[];
+  workingDir?: string;
+  quotedContext?: string;
+  interruptedAt: Date;
+}
+
+/**
+ * Records tasks that were running or queued when the bridge shut down so
+ * they can be offered for re-run after the next start.
+ */
+export class TaskJournal {
+  private static readonly SECTION = 'interruptedTasks';
+  private readonly store: StateStore;
+  private readonly ttlMs: number;
+  private entries = new Map<string, InterruptedTaskEntry>();
+
+  constructor(store: StateStore, ttlMs: number) {
+    this.store = store;
+    this.ttlMs = ttlMs;
+  }
+
+  restore(): InterruptedTaskEntry[] {
+    const raw = this.store.get<unknown[]>(TaskJournal.SECTION);
+    const cutoff = Date.now() - this.ttlMs;
+
+    for (const item of Array.isArray(raw) ? raw : []) {
+      const entry = this.reviveEntry(item);
+      if (entry && entry.interruptedAt.getTime() >= cutoff) {
+        this.entries.set(entry.taskId, entry);
+      }
+    }
+
+    this.store.register(TaskJournal.SECTION, () => Array.from(this.entries.values()));
+    return this.list();
+  }
+
+  record(entries: InterruptedTaskEntry[]): void {
+    for (const entry of entries) {
+      this.entries.set(entry.taskId, entry);
+    }
+    this.store.markDirty();
+  }
+
+  get(taskId: string): InterruptedTaskEntry | undefined {
+    return this.entries.get(taskId);
+  }
+
+  list(): InterruptedTaskEntry[] {
+    return Array.from(this.entries.values());
+  }
+
+  remove(taskId: string): void {
+    if (this.entries.delete(taskId)) {
+      this.store.markDirty();
+    }
+  }
+
+  private reviveEntry(raw: unknown): InterruptedTaskEntry | undefined {
+    if (!raw || typeof raw !== 'object') {
+      return undefined;
+    }
+
+    const record = raw as Record<string, unknown>;
+    if (typeof record.taskId !== 'string' || typeof record.command !== 'string' || typeof record.chatId !== 'string') {
+      return undefined;
+    }
+
+    return {
+      ...(record as unknown as InterruptedTaskEntry),
+      files: Array.isArray(record.files) ? record.files.filter(item => typeof item === 'string') : [],
+      interruptedAt: reviveDate(record.interruptedAt) || new Date(),
+    };
+  }
+}
@@ -0,0 +1,125 @@
+import { createWriteStream, mkdirSync, type WriteStream } from 'fs';
+import { access, readdir, readFile, rm, stat } from 'fs/promises';
+import { join, relative, resolve } from 'path';
+import { config } from '../config.js';
+import type { TranscriptFormat } from '../types.js';
+import { logger } from '../utils/logger.js';
+
+/** Append-only files for one running task: text output and raw JSON events. */
+export class TaskTranscript {
+  private readonly output: WriteStream;
+  private readonly events: WriteStream;
+
+  constructor(outputPath: string, eventsPath: string) {
+    this.output = createWriteStream(outputPath, { flags: 'a' });
+    this.events = createWriteStream(eventsPath, { flags: 'a' });
+    for (const stream of [this.output, this.events]) {
+      stream.on('error', (error: Error) => {
+        logger.warn(`Transcript write failed for ${stream.path}`, error);
+      });
+    }
+  }
+
+  writeOutput(text: string): void {
+    this.output.write(text);
+  }
+
+  writeEvent(line: string): void {
+    this.events.write(`${line}\n`);
+  }
+
+  async close(): Promise<void> {
+    await Promise.all([this.output, this.events].map(stream => new Promise<void>((resolve) => {
+      stream.end(() => resolve());
+    })));
+  }
+}
+
+/**
+ * Keeps every task's full output on disk, independent of the in-memory task
+ * store (which is pruned) and the persisted state (which is truncated).
+ */
+export class TranscriptStore {
+  private static readonly TASK_ID_PATTERN = /^task_\d+_[a-z0-9]+$/;
+  private readonly dir: string;
+  private readonly retentionMs: number;
+  private dirReady = false;
+
+  constructor(options: { dir: string; retentionMs: number } = {
+    dir: config.storage.transcriptDir,
+    retentionMs: config.storage.transcriptRetention,
+  }) {
+    this.dir = options.dir;
+    this.retentionMs = options.retentionMs;
+  }
+
+  open(taskId: string): TaskTranscript {
+    if (!this.dirReady) {
+      mkdirSync(this.dir, { recursive: true });
+      this.dirReady = true;
+    }
+    return new TaskTranscript(this.pathFor(taskId, 'log'), this.pathFor(taskId, 'events'));
+  }
+
+  /** Throws for anything that is not a generated task id, so user input can never leave `dir`. */
+  pathFor(taskId: string, format: Exclude<TranscriptFormat, 'md'>): string {
+    if (!TranscriptStore.TASK_ID_PATTERN.test(taskId)) {
+      throw new Error(`Invalid task id for transcript: ${taskId}`);
+    }
+
+    const dir = resolve(this.dir);
+    const filePath = resolve(dir, format === 'log' ? `${taskId}.log` : `${taskId}.events.jsonl`);
+    const relativePath = relative(dir, filePath);
+    if (!relativePath || relativePath.startsWith('..') || relativePath.includes('/') || relativePath.includes('\\')) {
+      throw new Error(`Transcript path escapes ${dir}: ${filePath}`);
+    }
+    return filePath;
+  }
+
+  async has(taskId: string, format: Exclude<TranscriptFormat, 'md'> = 'log'): Promise<boolean> {
+    try {
+      await access(this.pathFor(taskId, format));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async readOutput(taskId: string): Promise<string | undefined> {
+    try {
+      return await readFile(this.pathFor(taskId, 'log'), 'utf8');
+    } catch {
+      return undefined;
+    }
+  }
+
+  async prune(): Promise<void> {
+    if (this.retentionMs <= 0) {
+      return;
+    }
+
+    let names: string[];
+    try {
+      names = await readdir(this.dir);
+    } catch {
+      return;
+    }
+
+    const cutoff = Date.now() - this.retentionMs;
+    let removed = 0;
+    for (const name of names) {
+      const filePath = join(this.dir, name);
+      try {
+        if ((await stat(filePath)).mtimeMs < cutoff) {
+          await rm(filePath, { force: true });
+          removed += 1;
+        }
+      } catch (error) {
+        logger.warn(`Failed to prune transcript ${filePath}`, error);
+      }
+    }
+    if (removed > 0) {
+      logger.info(`Pruned ${removed} expired transcript file(s)`);
+    }
+  }
+}
@@ -1,11 +1,35 @@
 export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
 export type ConnectionMode = 'websocket' | 'webhook';
+export type ReplyMode = 'chat' | 'reply' | 'thread';
+export type StateBackendType = 'json' | 'memory';
 export type TaskStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
 export type IntentHint = 'chat' | 'task' | 'ambiguous';
 export type NotificationMode = 'quiet' | 'normal' | 'debug';
 export type TaskResponseMode = 'silent' | NotificationMode;
 export type ModelCommandAction = 'list' | 'current' | 'set' | 'reset';
 export type NotifyCommandAction = 'current' | 'set';
+export type TaskCommandTarget = 'task' | 'all';
+export type ProjectCommandAction = 'bind' | 'list' | 'current' | 'reset';
+export type WorktreeAction = 'merge' | 'keep' | 'discard';
+export type WorktreeState = 'active' | 'pending' | 'merged' | 'kept' | 'discarded';
+export type TranscriptFormat = 'md' | 'log' | 'events';
+export type ApprovalAction = 'approve' | 'reject';
+export type ScheduleCommandAction = 'add' | 'list' | 'rm';
+export type CardActionType = 'cancel' | 'retry' | 'continue' | 'output' | 'patch' | WorktreeAction | ApprovalAction;
+export type UserRole = 'admin' | 'operator' | 'viewer';
+export type Permission =
+  | 'chat'
+  | 'read_status'
+  | 'read_history'
+  | 'manage_session'
+  | 'run_task'
+  | 'set_preference'
+  | 'change_model'
+  | 'send_file'
+  | 'manage_tasks'
+  | 'bind_project'
+  | 'approve_task'
+  | 'schedule_task';
 
 export interface ModelCommandRequest {
   action: ModelCommandAction;
@@ -17,6 +41,80 @@ export interface NotifyCommandRequest {
   mode?: NotificationMode;
 }
 
+export interface ProjectCommandRequest {
+  action: ProjectCommandAction;
+  path?: string;
+}
+
+export interface ScheduleCommandRequest {
+  action: ScheduleCommandAction;
+  cron?: string;
+  command?: string;
+  jobId?: string;
+}
+
+export interface WorktreeCommandRequest {
+  action: WorktreeAction;
+  taskId: string;
+}
+
+export interface ApprovalCommandRequest {
+  action: ApprovalAction;
+  taskId: string;
+}
+
+export interface RetryCommandRequest {
+  taskId: string;
+  /** Set by `!rerun`: run the same request under another model. */
+  model?: string;
+}
+
+export interface ContinueCommandRequest {
+  taskId: string;
+}
+
+export interface TasksCommandRequest {
+  chatId?: string;
+  userId?: string;
+  allChats?: boolean;
+}
+
+export interface TaskDetailCommandRequest {
+  taskId: string;
+}
+
+export interface PatchCommandRequest {
+  taskId: string;
+}
+
+export interface CancelCommandRequest {
+  target: TaskCommandTarget;
+  taskId?: string;
+}
+
+export interface ResumeCommandRequest {
+  target: TaskCommandTarget;
+  taskId?: string;
+}
+
+export interface OutputCommandRequest {
+  taskId: string;
+  format?: TranscriptFormat;
+}
+
+export interface CardActionValue {
+  action: CardActionType;
+  taskId: string;
+}
+
+export interface FeishuCardActionEvent {
+  eventId: string;
+  operator: NonNullable<FeishuSender['sender_id']>;
+  chatId: string;
+  messageId: string;
+  value: Record<string, unknown>;
+}
+
 export interface FeishuBotConfig {
   appId: string;
   appSecret: string;
@@ -24,6 +122,8 @@ export interface FeishuBotConfig {
   verificationToken?: string;
   connectionMode: 'webhook' | 'websocket';
   webhookPort?: number;
+  eventDedupTtl?: number;
+  eventDedupMaxEntries?: number;
 }
 
 export interface FeishuSender {
@@ -56,6 +156,13 @@ export interface FeishuMessage {
   }>;
 }
 
+export interface FeishuMessageSnapshot {
+  messageId: string;
+  messageType: string;
+  content: string;
+  senderType: string;
+}
+
 export interface FeishuMessageEvent {
   schema: string;
   header: {
@@ -78,11 +185,25 @@ export interface BotResponse {
   followupText?: string;
   executeCommand?: string;
   executeFirst?: boolean;
+  readOnly?: boolean;
   intentHint?: IntentHint;
   modelCommand?: ModelCommandRequest;
   notifyCommand?: NotifyCommandRequest;
+  projectCommand?: ProjectCommandRequest;
+  scheduleCommand?: ScheduleCommandRequest;
+  worktreeCommand?: WorktreeCommandRequest;
+  patchCommand?: PatchCommandRequest;
+  tasksCommand?: TasksCommandRequest;
+  retryCommand?: RetryCommandRequest;
+  continueCommand?: ContinueCommandRequest;
+  taskDetailCommand?: TaskDetailCommandRequest;
+  approvalCommand?: ApprovalCommandRequest;
+  cancelCommand?: CancelCommandRequest;
+  resumeCommand?: ResumeCommandRequest;
+  outputCommand?: OutputCommandRequest;
   sendFilePath?: string;
   resetSession?: boolean;
+  showStatus?: boolean;
 }
 
 export interface SessionInfo {
@@ -101,11 +222,19 @@ export interface TaskInfo {
   responseMode?: TaskResponseMode;
   model?: string;
   executeFirst?: boolean;
+  /** Runs with edits, shell and web access denied (tasks started by viewers). */
+  readOnly?: boolean;
   command: string;
   userId: string;
   chatId: string;
   messageId: string;
   opencodeSessionId?: string;
+  files?: string[];
+  workingDir?: string;
+  quotedContext?: string;
+  worktree?: TaskWorktree;
+  changes?: TaskChanges;
+  approval?: TaskApproval;
   createdAt: Date;
   startedAt?: Date;
   completedAt?: Date;
@@ -116,6 +245,41 @@ export interface TaskInfo {
   progress?: string;
 }
 
+export interface TaskChangedFile {
+  path: string;
+  added: number;
+  removed: number;
+  binary?: boolean;
+}
+
+export interface TaskWorktree {
+  repoRoot: string;
+  path: string;
+  branch: string;
+  baseCommit: string;
+  /** Position of the requested working directory inside the repository. */
+  subdir: string;
+  state: WorktreeState;
+}
+
+export interface TaskApproval {
+  /** Text in the request that matched a risk pattern. */
+  reason: string;
+  state: 'waiting' | 'approved' | 'rejected';
+  decidedBy?: string;
+  decidedAt?: Date;
+}
+
+/** Files a task changed, as a diff between two git trees or commits. */
+export interface TaskChanges {
+  repoRoot: string;
+  from: string;
+  to: string;
+  files: TaskChangedFile[];
+  /** Another task ran in the same repository meanwhile; its edits may be included. */
+  mayIncludeOtherTasks?: boolean;
+}
+
 export interface TaskResult {
   success: boolean;
   output: string[];
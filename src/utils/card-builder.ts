@@ -1,8 +1,38 @@
+import type { CardActionValue, TaskInfo } from '../types.js';
+
 interface CardElement {
   tag: string;
   [key: string]: unknown;
 }
 
+export interface CardButton {
+  text: string;
+  type?: 'primary' | 'default' | 'danger';
+  url?: string;
+  value?: CardActionValue;
+}
+
+/**
+ * Builds an action row. Buttons with a `value` are delivered back to the bot
+ * as `card.action.trigger` callbacks; buttons with a `url` just open it.
+ */
+export function buildActionRow(buttons: CardButton[]): CardElement {
+  return {
+    tag: 'action',
+    actions: buttons.map(toButtonElement),
+  };
+}
+
+function toButtonElement(button: CardButton): CardElement {
+  return {
+    tag: 'button',
+    text: { tag: 'plain_text', content: button.text },
+    type: button.type || 'default',
+    ...(button.url ? { url: button.url } : {}),
+    ...(button.value ? { value: button.value } : {}),
+  };
+}
+
 export class CardBuilder {
   private card: Record<string, unknown> = {};
   private elements: CardElement[] = [];
@@ -37,6 +67,16 @@ export class CardBuilder {
     return this;
   }
 
+  /** A markdown block with a single button on its right-hand side. */
+  addMarkdownWithButton(content: string, button: CardButton): this {
+    this.elements.push({
+      tag: 'div',
+      text: { tag: 'lark_md', content },
+      extra: toButtonElement(button),
+    });
+    return this;
+  }
+
   addDivider(): this {
     this.elements.push({ tag: 'hr' });
     return this;
@@ -50,16 +90,22 @@ export class CardBuilder {
     return this;
   }
 
-  addButton(text: string, url: string, type: 'primary' | 'default' = 'default'): this {
-    this.elements.push({
-      tag: 'action',
-      actions: [{
-        tag: 'button',
-        text: { tag: 'plain_text', content: text },
-        url,
-        type,
-      }],
-    });
+  addButton(
+    text: string,
+    target: string | CardActionValue,
+    type: 'primary' | 'default' | 'danger' = 'default',
+  ): this {
+    const button: CardButton = typeof target === 'string'
+      ? { text, url: target, type }
+      : { text, value: target, type };
+    this.elements.push(buildActionRow([button]));
+    return this;
+  }
+
+  addActions(buttons: CardButton[]): this {
+    if (buttons.length > 0) {
+      this.elements.push(buildActionRow(buttons));
+    }
     return this;
   }
 
@@ -79,67 +125,137 @@ export class CardBuilder {
   }
 }
 
-export function buildTaskProgressCard(task: {
-  id: string;
-  command: string;
-  status: string;
-  output: string[];
-  duration?: number;
-}): Record<string, unknown> {
-  const statusEmoji = {
-    pending: '⏳',
-    running: '▶️',
-    completed: '✅',
-    failed: '❌',
-    cancelled: '⏹️',
-  };
+const TASK_STATUS_LABELS: Record<string, string> = {
+  pending: '⏳ 排队中',
+  running: '▶️ 运行中',
+  completed: '✅ 已完成',
+  failed: '❌ 失败',
+  cancelled: '⏹️ 已取消',
+};
+const TASK_OUTPUT_TAIL_LENGTH = 1500;
+const TASK_LIST_COMMAND_LENGTH = 40;
+
+function formatDuration(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(seconds / 60);
+  const hours = Math.floor(minutes / 60);
+  const days = Math.floor(hours / 24);
+
+  if (days > 0) return `${days}d ${hours % 24}h`;
+  if (hours > 0) return `${hours}h ${minutes % 60}m`;
+  if (minutes > 0) return `${minutes}m ${seconds % 60}s`;
+  return `${seconds}s`;
+}
+
+function describeTaskStatus(task: Pick<TaskInfo, 'status' | 'approval'>): string {
+  if (task.status === 'pending' && task.approval?.state === 'waiting') {
+    return '⚠️ 待审批';
+  }
+  return TASK_STATUS_LABELS[task.status] || task.status;
+}
+
+function taskElapsed(task: Pick<TaskInfo, 'duration' | 'startedAt'>): number | undefined {
+  if (task.duration !== undefined) {
+    return task.duration;
+  }
+  return task.startedAt ? Date.now() - task.startedAt.getTime() : undefined;
+}
+
+export function buildTaskProgressCard(task: TaskInfo): Record<string, unknown> {
+  const rawOutput = task.output.join('').trim();
+  const recentOutput = rawOutput.length > TASK_OUTPUT_TAIL_LENGTH
+    ? `...${rawOutput.substring(rawOutput.length - TASK_OUTPUT_TAIL_LENGTH)}`
+    : rawOutput;
+  const elapsed = taskElapsed(task);
+  const details = [
+    `**状态**：${describeTaskStatus(task)}`,
+    `**模型**：${task.model || '默认'}`,
+    `**耗时**：${elapsed !== undefined ? formatDuration(elapsed) : '-'}`,
+    `**退出码**：${task.exitCode ?? '-'}`,
+    `**发起人**：<at id=${task.userId}></at>`,
+    `**创建时间**：${task.createdAt.toLocaleString('zh-CN', { hour12: false })}`,
+  ];
+  if (task.error) {
+    details.push(`**错误**：${task.error}`);
+  }
 
-  const recentOutput = task.output.slice(-5).join('\n');
-  
   return new CardBuilder({
-    title: `${statusEmoji[task.status as keyof typeof statusEmoji] || '❓'} Task Status`,
+    title: `${describeTaskStatus(task)} 任务详情`,
     subtitle: `ID: ${task.id}`,
   })
-    .addSection('Command', `\`\`\`\n${task.command}\n\`\`\``)
+    .addMarkdown(details.join('  \n'))
+    .addDivider()
+    .addSection('任务内容', `\`\`\`\n${task.command}\n\`\`\``)
     .addDivider()
-    .addSection('Output', recentOutput || '(No output yet)')
-    .addNote(`Status: ${task.status}${task.duration ? ` | Duration: ${task.duration}ms` : ''}`)
+    .addSection('最新输出', recentOutput || '（暂无输出）')
+    .addActions([{ text: '📄 完整输出', value: { action: 'output', taskId: task.id } }])
     .build();
 }
 
+/** One line per task, each with a button that fetches the task's full output. */
+export function buildTaskListCard(title: string, groups: Array<{ label: string; tasks: TaskInfo[] }>): Record<string, unknown> {
+  const builder = new CardBuilder({ title });
+  const nonEmpty = groups.filter(group => group.tasks.length > 0);
+  if (nonEmpty.length === 0) {
+    return builder.addMarkdown('暂无任务。').build();
+  }
+
+  nonEmpty.forEach((group, index) => {
+    if (index > 0) {
+      builder.addDivider();
+    }
+    builder.addMarkdown(`**${group.label}（${group.tasks.length}）**`);
+    for (const task of group.tasks) {
+      const elapsed = taskElapsed(task);
+      const command = task.command.length > TASK_LIST_COMMAND_LENGTH
+        ? `${task.command.substring(0, TASK_LIST_COMMAND_LENGTH)}...`
+        : task.command;
+      builder.addMarkdownWithButton(
+        `${describeTaskStatus(task)} \`${task.id}\`${elapsed !== undefined ? ` · ${formatDuration(elapsed)}` : ''}\n${command.replace(/\s+/g, ' ')}`,
+        { text: '📄 输出', value: { action: 'output', taskId: task.id } },
+      );
+    }
+  });
+  return builder.addNote('使用 !task <任务ID> 查看详情').build();
+}
+
 export function buildSystemStatusCard(data: {
   version: string;
   uptime: number;
   activeSessions: number;
   runningTasks: number;
   queuedTasks: number;
+  awaitingApproval: number;
   connectionMode: string;
+  memoryUsageMb: number;
+  defaultModel?: string;
+  opencodeVersion?: string;
+  lastConnectAt?: Date;
 }): Record<string, unknown> {
-  const formatUptime = (ms: number): string => {
-    const seconds = Math.floor(ms / 1000);
-    const minutes = Math.floor(seconds / 60);
-    const hours = Math.floor(minutes / 60);
-    const days = Math.floor(hours / 24);
-    
-    if (days > 0) return `${days}d ${hours % 24}h`;
-    if (hours > 0) return `${hours}h ${minutes % 60}m`;
-    if (minutes > 0) return `${minutes}m ${seconds % 60}s`;
-    return `${seconds}s`;
-  };
+  const lastConnect = data.lastConnectAt
+    ? data.lastConnectAt.toLocaleString('zh-CN', { hour12: false })
+    : '-';
 
   return new CardBuilder({
-    title: '📊 System Status',
+    title: '📊 系统状态',
     subtitle: `OpenCode Feishu Bridge v${data.version}`,
   })
     .addMarkdown(`
-**Runtime Info**
-- Uptime: ${formatUptime(data.uptime)}
-- Connection Mode: ${data.connectionMode}
-
-**Statistics**
-- Active Sessions: ${data.activeSessions}
-- Running Tasks: ${data.runningTasks}
-- Queued Tasks: ${data.queuedTasks}
+**运行信息**
+- 运行时长：${formatDuration(data.uptime)}
+- 连接模式：${data.connectionMode}
+- 最近一次 WebSocket 连接：${lastConnect}
+- 内存占用：${data.memoryUsageMb}MB
+
+**opencode**
+- 版本：${data.opencodeVersion || '未知'}
+- 默认模型：${data.defaultModel || 'opencode 默认'}
+
+**统计**
+- 活跃会话：${data.activeSessions}
+- 运行中任务：${data.runningTasks}
+- 排队中任务：${data.queuedTasks}
+- 待审批任务：${data.awaitingApproval}
     `.trim())
     .build();
 }
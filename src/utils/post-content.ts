@@ -0,0 +1,113 @@
+export interface ParsedPostContent {
+  text: string;
+  imageKeys: string[];
+}
+
+interface PostElement {
+  tag?: string;
+  text?: string;
+  href?: string;
+  user_id?: string;
+  user_name?: string;
+  image_key?: string;
+  language?: string;
+}
+
+interface PostBody {
+  title?: string;
+  content?: PostElement[][];
+}
+
+/**
+ * Flattens a Feishu `post` (rich text) message into plain text the agent can
+ * read, keeping code blocks fenced and links inline. Mentions are rendered as
+ * their `@_user_N` key so the usual mention stripping still applies. Images
+ * are returned separately so they can be attached as files.
+ */
+export function parsePostContent(rawContent: string): ParsedPostContent {
+  const body = resolvePostBody(rawContent);
+  if (!body) {
+    return { text: '', imageKeys: [] };
+  }
+
+  const lines: string[] = [];
+  const imageKeys: string[] = [];
+  if (body.title?.trim()) {
+    lines.push(body.title.trim());
+  }
+
+  for (const paragraph of Array.isArray(body.content) ? body.content : []) {
+    let line = '';
+    for (const element of Array.isArray(paragraph) ? paragraph : []) {
+      if (element.tag === 'code_block') {
+        if (line.trim()) {
+          lines.push(line.trimEnd());
+        }
+        line = '';
+        lines.push(`\`\`\`${(element.language || '').toLowerCase()}\n${element.text || ''}\n\`\`\``);
+        continue;
+      }
+      if (element.tag === 'img' && element.image_key) {
+        imageKeys.push(element.image_key);
+      }
+      line += renderInlineElement(element);
+    }
+    if (line.trim()) {
+      lines.push(line.trimEnd());
+    }
+  }
+
+  return {
+    text: lines.join('\n').trim(),
+    imageKeys,
+  };
+}
+
+function resolvePostBody(rawContent: string): PostBody | null {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(rawContent);
+  } catch {
+    return null;
+  }
+  if (!parsed || typeof parsed !== 'object') {
+    return null;
+  }
+
+  const record = parsed as Record<string, unknown>;
+  if (Array.isArray(record.content)) {
+    return record as PostBody;
+  }
+
+  // Older payloads wrap the body in a locale key such as `zh_cn`.
+  for (const value of Object.values(record)) {
+    if (value && typeof value === 'object' && Array.isArray((value as PostBody).content)) {
+      return value as PostBody;
+    }
+  }
+  return null;
+}
+
+function renderInlineElement(element: PostElement): string {
+  switch (element.tag) {
+    case 'text':
+    case 'md':
+      return element.text || '';
+    case 'a': {
+      const label = element.text?.trim();
+      if (!element.href) {
+        return label || '';
+      }
+      return label && label !== element.href ? `[${label}](${element.href})` : element.href;
+    }
+    case 'at':
+      if (element.user_id?.startsWith('@_')) {
+        return element.user_id;
+      }
+      return element.user_name ? `@${element.user_name}` : '';
+    case 'hr':
+      return '\n---\n';
+    default:
+      return '';
+  }
+}